@@ -0,0 +1,116 @@
+// ============================================================================
+// DISTRIBUTION CONFORMANCE SUITE
+// ============================================================================
+// Runs the chi-square and Kolmogorov-Smirnov fit tests (src/lib/goodness-of-fit.ts)
+// for every distribution type over a grid of center/spread/shape settings,
+// all with fixed seeds, and exits with code 1 if any configuration fails.
+// Each configuration is tested three times: the distribution's own sampler,
+// and the integer and date generators the rolls use (randomness.ts).
+//
+// Usage: npm run test:distributions
+//        npm run test:distributions -- --verbose   (print every configuration)
+
+import { createServer } from 'vite';
+
+// Chance that a correct sampler fails anywhere in the suite; split evenly over
+// every test (Bonferroni), since hundreds of tests at a fixed level would
+// almost surely flag a false failure somewhere
+const SUITE_SIGNIFICANCE = 0.01;
+
+const CENTERS = [0, 0.05, 0.5, 0.95, 1];
+const SPREADS = [0.02, 0.1, 0.3, 0.6, 1];
+const DEGREES_OF_FREEDOM = [1, 2, 5, 30];
+const BETA_SHAPES = [[0.5, 0.5], [1, 1], [2, 5], [5, 2], [0.8, 3], [10, 10]];
+// Ranges for the roll generators: a two-digit field and the years YouTube has existed
+const INTEGER_RANGE = [0, 99];
+const DATE_RANGE = [new Date('2005-04-23T00:00:00Z'), new Date('2025-01-01T00:00:00Z')];
+
+const MIXTURE_COMPONENTS = [
+    [],
+    [{ center: 0.8, spread: 0.08, weight: 0.4 }],
+    [{ center: 0.02, spread: 0.5, weight: 3 }, { center: 0.7, spread: 0.02, weight: 0.2 }]
+];
+
+/**
+ * Every configuration the suite tests
+ */
+function buildConfigs() {
+    const configs = [];
+
+    for (const center of CENTERS) {
+        for (const spread of SPREADS) {
+            configs.push({ type: 'uniform', center, spread });
+            configs.push({ type: 'bell', center, spread });
+            configs.push({ type: 'z-curve', center, spread });
+            configs.push({ type: 'triangular', center, spread });
+            for (const degreesOfFreedom of DEGREES_OF_FREEDOM) {
+                configs.push({ type: 't-curve', center, spread, degreesOfFreedom });
+            }
+            for (const components of MIXTURE_COMPONENTS) {
+                configs.push({ type: 'mixture', center, spread, components });
+            }
+        }
+    }
+
+    for (const spread of SPREADS) {
+        configs.push({ type: 'exponential', center: 0.5, spread, direction: 'start' });
+        configs.push({ type: 'exponential', center: 0.5, spread, direction: 'end' });
+    }
+
+    for (const [alpha, beta] of BETA_SHAPES) {
+        configs.push({ type: 'beta', center: 0.5, spread: 0.5, alpha, beta });
+    }
+
+    return configs;
+}
+
+function describeConfig(config) {
+    const parts = [`${config.type}`, `center=${config.center}`, `spread=${config.spread}`];
+    if (config.degreesOfFreedom !== undefined) parts.push(`df=${config.degreesOfFreedom}`);
+    if (config.direction) parts.push(`from ${config.direction}`);
+    if (config.alpha !== undefined) parts.push(`α=${config.alpha}`, `β=${config.beta}`);
+    if (config.components) parts.push(`${config.components.length} extra bump(s)`);
+    return parts.join(' ');
+}
+
+const verbose = process.argv.includes('--verbose');
+
+const server = await createServer({
+    configFile: false,
+    logLevel: 'error',
+    appType: 'custom',
+    server: { middlewareMode: true, hmr: false },
+    optimizeDeps: { noDiscovery: true, include: [] }
+});
+
+let failures = 0;
+
+try {
+    const { testDistributionFit, testIntegerSamplerFit, testDateSamplerFit, describeFit } =
+        await server.ssrLoadModule('/src/lib/goodness-of-fit.ts');
+    const configs = buildConfigs();
+    const samplers = [
+        { label: 'distribution', test: (config, options) => testDistributionFit(config, options) },
+        { label: 'integers', test: (config, options) => testIntegerSamplerFit(config, ...INTEGER_RANGE, options) },
+        { label: 'dates', test: (config, options) => testDateSamplerFit(config, ...DATE_RANGE, options) }
+    ];
+    const significance = SUITE_SIGNIFICANCE / (2 * configs.length * samplers.length);
+
+    configs.forEach((config, index) => {
+        const failed = [];
+        for (const { label, test } of samplers) {
+            const report = test(config, { seed: `conformance-${index}`, significance });
+            if (!report.passed) failed.push(label);
+            if (verbose || !report.passed) {
+                console.log(`${report.passed ? 'PASS' : 'FAIL'}  ${describeConfig(config)} (${label})  —  ${describeFit(report)}`);
+            }
+        }
+        if (failed.length > 0) failures++;
+    });
+
+    console.log(`\n${configs.length - failures}/${configs.length} configurations match their theoretical CDF`);
+} finally {
+    await server.close();
+}
+
+process.exit(failures > 0 ? 1 : 0);
@@ -0,0 +1,307 @@
+// ============================================================================
+// REGRESSION CHECKS
+// ============================================================================
+// Small end-to-end checks of the library (src/lib/index.ts) for bugs that were
+// found and fixed: each check rebuilds the situation and asserts on the
+// result. Exits with code 1 if any check fails.
+//
+// Usage: npm run test:regressions
+//        npm run test:regressions -- --verbose   (print every check)
+
+import assert from 'node:assert/strict';
+import { createServer } from 'vite';
+
+const verbose = process.argv.includes('--verbose');
+
+const server = await createServer({
+    configFile: false,
+    logLevel: 'error',
+    appType: 'custom',
+    server: { middlewareMode: true, hmr: false },
+    optimizeDeps: { noDiscovery: true, include: [] }
+});
+
+const checks = [];
+
+/**
+ * Register a check (run once the library is loaded)
+ */
+function check(name, run) {
+    checks.push({ name, run });
+}
+
+/**
+ * A rated history entry for a pattern in the term pool
+ */
+function ratedEntry(pattern, rating, index) {
+    return {
+        id: `entry-${index}`,
+        name: pattern.name,
+        specifier: '',
+        url: '',
+        timestamp: new Date(0),
+        rating,
+        context: { pattern, specifier: pattern.specifiers[0] }
+    };
+}
+
+// ============================================================================
+// RATINGS
+// ============================================================================
+
+check('built-in patterns that share a name keep separate ratings', (lib) => {
+    const pool = lib.buildTermPool(lib.loadAllSearchTerms(), []);
+    const unnamed = pool.filter(pattern => pattern.name === '');
+    const gameCapture = unnamed.find(pattern => pattern.genre === 'Game Capture');
+    const iPhone = unnamed.find(pattern => pattern.genre === 'iPhone');
+    assert.ok(gameCapture && iPhone, 'the built-in list has unnamed Game Capture and iPhone patterns');
+
+    const entries = [0, 1, 2].map(i => ratedEntry(gameCapture, 'gem', i));
+    const stats = lib.aggregateRatings(entries);
+    assert.equal(stats.length, 1);
+    assert.equal(stats[0].key, gameCapture.patternId);
+    assert.equal(stats[0].gems, 3);
+
+    const weighted = lib.applyAdaptiveWeights(unnamed.map(pattern => ({ pattern, specifiers: [] })), stats);
+    for (const candidate of weighted) {
+        const expected = candidate.pattern.patternId === gameCapture.patternId ? stats[0].multiplier : 1;
+        assert.equal(candidate.pattern.weight ?? 1, expected, `weight of ${candidate.pattern.genre}`);
+    }
+});
+
+// ============================================================================
+// HISTORY
+// ============================================================================
+
+check('"Roll similar" finds the recorded pattern, not another one with its name', (lib) => {
+    const pool = lib.buildTermPool(lib.loadAllSearchTerms(), []);
+    const hhmmss = pool.find(pattern => pattern.name === '' && pattern.specifiers.includes('HHMMSS'));
+    assert.ok(hhmmss, 'the built-in list has an unnamed HHMMSS pattern');
+
+    const record = { pattern: hhmmss, specifier: 'HHMMSS' };
+    assert.equal(lib.findRecordedPattern(record, pool), hhmmss);
+
+    // Recorded before patterns had ids
+    const { patternId, ...unversioned } = hhmmss;
+    assert.equal(lib.findRecordedPattern({ ...record, pattern: unversioned }, pool), hhmmss);
+
+    // Gone from the pool: nothing, rather than another unnamed pattern
+    const withoutIt = pool.filter(pattern => pattern !== hhmmss);
+    assert.equal(lib.findRecordedPattern(record, withoutIt), null);
+});
+
+// ============================================================================
+// QUERY SPACE
+// ============================================================================
+
+check('searched values only use up the space of the pattern they were rolled from', (lib) => {
+    const pool = lib.buildTermPool(lib.loadAllSearchTerms(), []);
+    const mol0 = pool.filter(pattern => pattern.name === 'MOL0' && pattern.specifiers.includes('XX'));
+    const hex = mol0.find(pattern => lib.querySpaceSize(pattern, 'XX') === 250);
+    const decimal = mol0.find(pattern => lib.querySpaceSize(pattern, 'XX') === 100);
+    assert.ok(hex && decimal, 'the built-in list has "MOL0" + XX as hex 00-F9 and as decimal 00-99');
+
+    const searched = (pattern, values) => values.map((value, i) => ({
+        id: `entry-${pattern.patternId}-${i}`,
+        name: pattern.name,
+        specifier: value,
+        url: '',
+        timestamp: new Date(0),
+        context: { pattern, specifier: 'XX' }
+    }));
+    const hexValues = lib.enumerateSpecifierValues(hex, 'XX');
+    const used = lib.collectUsedQueries(searched(hex, hexValues));
+
+    assert.equal(lib.querySpaceStatus(hex, 'XX', used).exhausted, true);
+    assert.deepEqual(lib.querySpaceStatus(decimal, 'XX', used), { size: 100, used: 0, remaining: 100, exhausted: false });
+    assert.deepEqual([...lib.exhaustedQueries(pool, used).keys()], [lib.queryKey(hex, 'XX')]);
+
+    // Hex values recorded under the decimal pattern: only 00-99 are in its space
+    const mixed = lib.collectUsedQueries(searched(decimal, hexValues));
+    assert.deepEqual(lib.querySpaceStatus(decimal, 'XX', mixed), { size: 100, used: 100, remaining: 0, exhausted: true });
+    const stray = lib.collectUsedQueries(searched(decimal, ['A0', 'F9', '7']));
+    assert.equal(lib.querySpaceStatus(decimal, 'XX', stray).used, 0);
+
+    // Sweeps of the two have their own cursors
+    const sweeps = lib.startSweep({}, hex, 'XX', 'sequential');
+    assert.equal(sweeps[lib.queryKey(decimal, 'XX')], undefined);
+});
+
+// ============================================================================
+// DATES
+// ============================================================================
+
+/**
+ * Run with the process in another time zone (Node reads TZ on every change)
+ */
+function inTimeZone(timeZone, run) {
+    const previous = process.env.TZ;
+    process.env.TZ = timeZone;
+    try {
+        run();
+    } finally {
+        if (previous === undefined) delete process.env.TZ;
+        else process.env.TZ = previous;
+    }
+}
+
+check('date constraints and rolled dates share one time basis at both window edges', (lib) => {
+    const today = new Date(2024, 5, 1);
+    const edgeDate = (constraint, random) => {
+        const pattern = { name: '', specifiers: ['YYYYMMDD'], genre: '', age: '', constraints: [constraint] };
+        const window = lib.resolveDateWindow(pattern, { today });
+        return lib.fillSpecifierTemplate('YYYYMMDD', pattern, lib.sampleDateInWindow(window, undefined, () => random), undefined, () => 0);
+    };
+
+    inTimeZone('America/New_York', () => {
+        assert.equal(edgeDate({ type: 'date-after', value: '2023' }, 0), '20230101');
+        assert.equal(edgeDate({ type: 'year', value: '2019' }, 0), '20190101');
+        assert.equal(lib.fillSpecifierTemplate('YYYYMMDD', { constraints: [] }, lib.parseCalendarDate('2020-06-15')), '20200615');
+    });
+    inTimeZone('Asia/Seoul', () => {
+        assert.equal(edgeDate({ type: 'date-before', value: '2017' }, 1), '20161231');
+        assert.equal(edgeDate({ type: 'year', value: '2019' }, 1), '20191231');
+    });
+});
+
+check('a seed pinned to a day rolls the same search on any later day', (lib) => {
+    const pattern = { name: 'Trip ', specifiers: ['YYYY'], genre: '', age: '', constraints: [] };
+    const settings = { candidates: lib.patternCandidates(pattern), platformChoice: 'bilibili' };
+    const day = new Date(2024, 5, 1);
+
+    const shown = lib.formatRollSeed('abc123', day);
+    assert.equal(shown, 'abc123@2024-06-01');
+    const pinned = lib.parseRollSeed(shown);
+    assert.equal(pinned.seed, 'abc123');
+    assert.equal(pinned.today.getTime(), day.getTime());
+    assert.deepEqual(lib.parseRollSeed(' abc123 '), { seed: 'abc123' });
+
+    const roll = lib.rollSearch({ ...settings, today: pinned.today }, lib.createSeededRandom(pinned.seed));
+    const again = lib.rollSearch({ ...settings, today: new Date(2024, 5, 1) }, lib.createSeededRandom('abc123'));
+    assert.equal(again.query.url, roll.query.url);
+    assert.ok(roll.query.url.includes(`pubtime_end_s=${day.getTime() / 1000}`), 'the "after" range ends on the pinned day');
+    assert.ok(roll.date <= day, 'the rolled date is inside the pinned window');
+
+    // The record keeps the day, and a replay rebuilds the URL (Bilibili's range end included)
+    const record = lib.createRollRecord(pinned.seed, roll, { ...settings, today: pinned.today });
+    assert.equal(new Date(record.today).getTime(), day.getTime());
+    assert.equal(lib.replayRoll(JSON.parse(JSON.stringify(record))).query.url, roll.query.url);
+
+    // Previews show the seed with their day
+    const [example] = lib.previewRolls({ ...settings, today: day }, 1, 'abc');
+    assert.equal(example.seed, 'abc-1@2024-06-01');
+});
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+check('CSV import rejects malformed constraint cells', (lib) => {
+    const rowErrors = (constraints) => {
+        const csv = `name,specifiers,constraints\nIMG_,XXXX,"${constraints}"\n`;
+        const [row] = lib.previewTermImport(csv, 'csv').rows;
+        return row.pattern === null ? row.errors.join('\n') : null;
+    };
+
+    assert.equal(rowErrors('range:0000-1999@0; date-after:2010'), null);
+    assert.match(rowErrors('bogus:12'), /"bogus" in "bogus:12" is not a constraint type/);
+    assert.match(rowErrors('range 0000-1999'), /should look like type:value/);
+    assert.match(rowErrors('range:0000-1999@1'), /No specifier has a field 1/);
+    assert.match(rowErrors('range:0000-1999@serial'), /No specifier has a field "serial"/);
+    assert.match(rowErrors('range:0 - 1999'), /Expected "min-max" with numbers/);
+    assert.match(rowErrors('year:20x0'), /4-digit year/);
+
+    // The same checks for JSON files, whose values rolls read as they are
+    const pattern = { name: 'IMG_', specifiers: ['XXXX'], genre: '', age: '', constraints: [{ type: 'range', value: ' 0-99' }] };
+    assert.ok(lib.validateSearchPattern(pattern).some(error => error.message.includes('Expected "min-max"')));
+    assert.ok(lib.validateSearchPattern({ ...pattern, constraints: [{ type: 'bogus', value: '1' }] }).length > 0);
+});
+
+check('names with surrounding spaces survive a CSV export and import', (lib) => {
+    const patterns = [
+        { name: ' IMG ', specifiers: ['XXXX'], genre: 'Photo', age: '', constraints: [{ type: 'range', value: '0000-1999', field: 0 }] },
+        { name: 'DSC ', specifiers: ['YYYYMMDD', 'XXXX'], genre: 'Photo', age: 'old', constraints: [] },
+        { name: '  ', specifiers: ['MOV XXXX'], genre: 'Video', age: '', constraints: [] }
+    ];
+
+    const preview = lib.previewTermImport(lib.termsToCSV(patterns), 'csv');
+    assert.deepEqual(preview.rows.map(row => row.errors), patterns.map(() => []));
+    assert.deepEqual(lib.importablePatterns(preview), patterns);
+});
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+/**
+ * Run with a localStorage that holds `items` (Node has none)
+ */
+async function withLocalStorage(items, run) {
+    const store = new Map(Object.entries(items));
+    globalThis.localStorage = {
+        getItem: (key) => store.get(key) ?? null,
+        setItem: (key, value) => store.set(key, String(value)),
+        removeItem: (key) => store.delete(key)
+    };
+    try {
+        await run(store);
+    } finally {
+        delete globalThis.localStorage;
+    }
+}
+
+check('a term repository loads again after a failed load', async (lib) => {
+    const storage = lib.createMemoryStorage();
+    const getAll = storage.getAll;
+    storage.getAll = async () => {
+        storage.getAll = getAll;
+        throw new Error('storage is busy');
+    };
+
+    const repository = lib.createTermRepository(storage);
+    await assert.rejects(repository.load(), /storage is busy/);
+    assert.deepEqual(await repository.load(), []);
+});
+
+check('legacy terms stay in place unless they were moved into the repository', async (lib) => {
+    const legacyKey = 'customSearchTerms';
+    for (const raw of ['{"name":"IMG_"}', '[]', 'not json']) {
+        await withLocalStorage({ [legacyKey]: raw }, async (store) => {
+            await lib.createTermRepository(lib.createMemoryStorage()).load();
+            assert.equal(store.get(legacyKey), raw, `legacy value ${raw}`);
+        });
+    }
+
+    const legacy = JSON.stringify([{ name: 'IMG_', specifiers: ['XXXX'], genre: '', age: '', constraints: [] }]);
+    await withLocalStorage({ [legacyKey]: legacy }, async (store) => {
+        const terms = await lib.createTermRepository(lib.createMemoryStorage()).load();
+        assert.equal(terms.length, 1);
+        assert.equal(store.has(legacyKey), false);
+    });
+});
+
+// ============================================================================
+// RUN
+// ============================================================================
+
+let failures = 0;
+
+try {
+    const lib = await server.ssrLoadModule('/src/lib/index.ts');
+
+    for (const { name, run } of checks) {
+        try {
+            await run(lib);
+            if (verbose) console.log(`PASS  ${name}`);
+        } catch (error) {
+            failures++;
+            console.log(`FAIL  ${name}\n      ${error.message.split('\n').join('\n      ')}`);
+        }
+    }
+
+    console.log(`\n${checks.length - failures}/${checks.length} checks pass`);
+} finally {
+    await server.close();
+}
+
+process.exit(failures > 0 ? 1 : 0);
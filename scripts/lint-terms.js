@@ -0,0 +1,60 @@
+// ============================================================================
+// SEARCH TERM LINTER
+// ============================================================================
+// Runs the term linter (src/lib/term-lint.ts) over search-terms files and
+// term packs, prints every issue with its severity and suggested fix, and
+// exits with code 1 if any file has errors.
+//
+// Usage: npm run lint:terms                                (bundled search-terms.json)
+//        npm run lint:terms -- my-pack.json other.json     (any term files or packs)
+//        npm run lint:terms -- --strict                    (warnings fail too)
+//        npm run lint:terms -- --quiet                     (hide info)
+
+import { readFile } from 'node:fs/promises';
+import { createServer } from 'vite';
+
+const DEFAULT_FILES = ['src/lib/search-terms.json'];
+
+const args = process.argv.slice(2);
+const strict = args.includes('--strict');
+const quiet = args.includes('--quiet');
+const files = args.filter(arg => !arg.startsWith('--'));
+
+const server = await createServer({
+    configFile: false,
+    logLevel: 'error',
+    appType: 'custom',
+    server: { middlewareMode: true, hmr: false },
+    optimizeDeps: { noDiscovery: true, include: [] }
+});
+
+let failed = false;
+
+try {
+    const { lintSearchTermsFile, countLintIssues, formatLintIssue } = await server.ssrLoadModule('/src/lib/term-lint.ts');
+
+    for (const file of files.length > 0 ? files : DEFAULT_FILES) {
+        let issues;
+        try {
+            issues = lintSearchTermsFile(JSON.parse(await readFile(file, 'utf8')));
+        } catch (error) {
+            console.log(`${file}\n  error (file) could not be read: ${error.message}\n`);
+            failed = true;
+            continue;
+        }
+
+        const counts = countLintIssues(issues);
+        console.log(file);
+        for (const issue of issues) {
+            if (quiet && issue.severity === 'info') continue;
+            console.log(`  ${formatLintIssue(issue)}`);
+        }
+        console.log(`  ${counts.error} error(s), ${counts.warning} warning(s), ${counts.info} info\n`);
+
+        if (counts.error > 0 || (strict && counts.warning > 0)) failed = true;
+    }
+} finally {
+    await server.close();
+}
+
+process.exit(failed ? 1 : 0);
@@ -0,0 +1,101 @@
+/**
+ * App Database - The app's IndexedDB database, shared by every repository
+ *
+ * RESPONSIBILITIES:
+ * Opens "the-method" once and creates its object stores. Every store is
+ * created here, so whichever repository opens the database first upgrades
+ * it for all of them.
+ *
+ * VERSION HISTORY:
+ *   1  "searchTerms"    custom search terms (term-repository.ts)
+ *   2  "searchHistory"  rolled searches, indexed by timestamp (history-repository.ts)
+ */
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DB_NAME = 'the-method';
+export const DB_VERSION = 2;
+
+export const TERMS_STORE = 'searchTerms';
+export const HISTORY_STORE = 'searchHistory';
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+let opening: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * Open the database (once; later calls share the same connection)
+ * The connection closes itself when another tab upgrades the database; the
+ * next call then opens it again (which fails once the upgrade is newer).
+ * @returns The database, or null when IndexedDB isn't available, won't open
+ *          or another tab blocks the upgrade
+ */
+export function openAppDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+
+  if (!opening) {
+    opening = new Promise<IDBDatabase>((resolve, reject) => {
+      let blocked = false;
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TERMS_STORE)) {
+          db.createObjectStore(TERMS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+          db.createObjectStore(HISTORY_STORE, { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        if (blocked) {
+          db.close(); // We already gave up on it
+          return;
+        }
+        // Let a newer version opened in another tab upgrade instead of waiting on this one
+        db.onversionchange = () => {
+          db.close();
+          opening = null;
+          console.warn(`"${DB_NAME}" was upgraded in another tab; reload this tab to keep saving`);
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      // Another tab still has the old version open: don't wait for it
+      request.onblocked = () => {
+        blocked = true;
+        reject(new Error(`Upgrading "${DB_NAME}" is blocked by another open tab`));
+      };
+    }).catch(error => {
+      console.warn('IndexedDB unavailable:', error);
+      return null;
+    });
+  }
+
+  return opening;
+}
+
+/**
+ * Run one request against a store and wait for its result
+ * Gets the connection from openAppDatabase() every time, so requests after
+ * a version change don't go to the closed connection.
+ * @throws When the database won't open
+ */
+export async function runStoreRequest<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openAppDatabase();
+  if (!db) throw new Error(`"${DB_NAME}" can't be opened; reload this tab to keep saving`);
+
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
@@ -0,0 +1,246 @@
+/**
+ * Date Window - Resolves the range of dates a roll may use
+ *
+ * RESPONSIBILITIES:
+ * Combines everything that limits the date of a search into ONE window:
+ *  1. The pattern's own date constraints (date-before / date-after / year)
+ *  2. The age filter (user selection, or the pattern's age as a fallback)
+ *  3. The custom override date from the Filters tab
+ *
+ * The pattern's constraints always win: when the age filter or the override
+ * would push the window outside the pattern's valid era, that limit is dropped
+ * and reported as a conflict instead. That way YYYY tokens and before:/after:
+ * filters never produce impossible queries (e.g., an Oculus Quest file from 2008).
+ *
+ * Every calendar date (constraint values, the override date, window edges)
+ * is read in local time, the same time basis the rolled date is formatted in
+ * (YYYY tokens, before:/after: filters), so "date-after: 2023" never yields 2022.
+ */
+
+import type { SearchPattern } from './method-logic.js';
+import type { DistributionConfig } from './randomness.js';
+import { generateConstrainedDate } from './randomness.js';
+import { defaultRandom, type RandomSource } from './rng.js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type AgeFilter = 'any' | 'new' | 'old';
+
+export interface DateOverride {
+  type: 'before' | 'after' | 'exact';
+  date: Date;
+}
+
+export interface DateWindowOptions {
+  age?: AgeFilter;                  // The "Show me ... videos" selection
+  override?: DateOverride | null;   // Custom date from the Filters tab
+  today?: Date;                     // Upper bound (default: the start of today, see startOfDay())
+}
+
+export interface DateWindowConflict {
+  source: 'pattern' | 'age' | 'override';
+  message: string;
+}
+
+export interface DateWindow {
+  start: Date;
+  end: Date;
+  anchor?: Date;                    // The override date, moved into the window
+  conflicts: DateWindowConflict[];  // Limits that were dropped, and why
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Earliest date any roll may use (matches the date distribution graph)
+export const EARLIEST_SEARCH_DATE = new Date(2005, 11, 31);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Resolve the date window for one pattern
+ *
+ * @param pattern - The selected search pattern
+ * @param options - Age filter, override date and "today"
+ * @returns The window, the override anchor (if any) and any conflicts
+ */
+export function resolveDateWindow(pattern: SearchPattern, options: DateWindowOptions = {}): DateWindow {
+  const today = options.today ?? startOfDay(new Date());
+  const age = options.age ?? 'any';
+  const conflicts: DateWindowConflict[] = [];
+
+  let start = EARLIEST_SEARCH_DATE.getTime();
+  let end = today.getTime();
+
+  // Step 1: Pattern constraints set the valid era
+  const patternWindow = constraintWindow(pattern, start, end);
+  if (patternWindow.start > patternWindow.end) {
+    conflicts.push({
+      source: 'pattern',
+      message: `The date constraints of "${pattern.name}" contradict each other and were ignored`
+    });
+  } else {
+    start = patternWindow.start;
+    end = patternWindow.end;
+  }
+
+  // Step 2: Age filter; the pattern's own age only applies when the user picked 'any'
+  // and the pattern has no date constraints of its own
+  const hasDateConstraints = pattern.constraints.some(c => DATE_CONSTRAINT_TYPES.includes(c.type));
+  const effectiveAge = age !== 'any' ? age : (hasDateConstraints ? '' : pattern.age);
+  const ageStart = ageWindowStart(effectiveAge, today);
+
+  if (ageStart !== null) {
+    const narrowedStart = Math.max(start, ageStart);
+    if (narrowedStart > end) {
+      conflicts.push({
+        source: 'age',
+        message: `"${pattern.name}" only exists ${describeRange(start, end)}, so the "${effectiveAge}" filter was ignored`
+      });
+    } else {
+      start = narrowedStart;
+    }
+  }
+
+  // Step 3: Override date
+  let anchor: Date | undefined;
+  const override = options.override;
+
+  if (override && !isNaN(override.date.getTime())) {
+    const time = override.date.getTime();
+    const fits = override.type === 'before' ? time >= start
+      : override.type === 'after' ? time <= end
+      : time >= start && time <= end;
+
+    if (fits) {
+      if (override.type !== 'after') end = Math.min(end, time);
+      if (override.type !== 'before') start = Math.max(start, time);
+    } else {
+      conflicts.push({
+        source: 'override',
+        message: `"${pattern.name}" only exists ${describeRange(start, end)}, so the custom date was moved into that range`
+      });
+    }
+
+    anchor = new Date(Math.min(end, Math.max(start, time)));
+  }
+
+  return { start: new Date(start), end: new Date(end), anchor, conflicts };
+}
+
+/**
+ * Pick a date inside a window
+ * Uses the date distribution when one is given, otherwise uniform.
+ *
+ * @param window - A window from resolveDateWindow()
+ * @param config - Optional date distribution config (Randomness tab)
+ * @param random - Source of randomness (default: Math.random)
+ * @returns A date between window.start and window.end
+ */
+export function sampleDateInWindow(
+  window: DateWindow,
+  config?: DistributionConfig,
+  random: RandomSource = defaultRandom
+): Date {
+  if (config) {
+    return generateConstrainedDate(window.start, window.end, config, random);
+  }
+
+  const diffTime = window.end.getTime() - window.start.getTime();
+  return new Date(window.start.getTime() + random() * diffTime);
+}
+
+/**
+ * Midnight (local time) at the start of a date's day
+ * The default window end, so windows (and the seeds that reproduce a roll,
+ * see roll.ts) stay the same all day instead of moving every millisecond.
+ */
+export function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * A date as YYYY-MM-DD in local time (read back by parseCalendarDate())
+ */
+export function formatCalendarDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Read a calendar date as local midnight: a bare year ("2017") or a full date ("2017-06-30")
+ * new Date("2017-06-30") would read UTC midnight, the day before west of Greenwich.
+ * Other values (with a time) are read by new Date().
+ * @returns The date, or null when unreadable
+ */
+export function parseCalendarDate(value: string): Date | null {
+  const text = value.trim();
+  const day = /^(\d{4})(?:-(\d{2})-(\d{2}))?$/.exec(text);
+  const date = day
+    ? new Date(parseInt(day[1], 10), day[2] ? parseInt(day[2], 10) - 1 : 0, day[3] ? parseInt(day[3], 10) : 1)
+    : new Date(text);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+const DATE_CONSTRAINT_TYPES = ['date-before', 'date-after', 'year'];
+
+/**
+ * Apply a pattern's date-before / date-after / year constraints to a range
+ * A bare year means the start of that year ("date-before: 2017" = before 2017-01-01),
+ * except for 'year', which covers the whole year.
+ */
+function constraintWindow(pattern: SearchPattern, start: number, end: number): { start: number; end: number } {
+  for (const constraint of pattern.constraints) {
+    const value = String(constraint.value);
+
+    if (constraint.type === 'date-before') {
+      const date = parseConstraintDate(value);
+      if (date !== null) end = Math.min(end, date - 1);
+    } else if (constraint.type === 'date-after') {
+      const date = parseConstraintDate(value);
+      if (date !== null) start = Math.max(start, date);
+    } else if (constraint.type === 'year') {
+      const year = parseInt(value, 10);
+      if (!isNaN(year)) {
+        start = Math.max(start, new Date(year, 0, 1).getTime());
+        end = Math.min(end, new Date(year + 1, 0, 1).getTime() - 1);
+      }
+    }
+  }
+
+  return { start, end };
+}
+
+/**
+ * Parse a constraint date (see parseCalendarDate())
+ * @returns Milliseconds since epoch, or null when unreadable
+ */
+function parseConstraintDate(value: string): number | null {
+  return parseCalendarDate(value)?.getTime() ?? null;
+}
+
+/**
+ * Earliest date allowed by an age filter, or null for no limit
+ * Old = last 10 years, new = last year
+ */
+function ageWindowStart(age: AgeFilter | '', today: Date): number | null {
+  if (age === 'old') return today.getTime() - 3650 * DAY_MS;
+  if (age === 'new') return today.getTime() - 365 * DAY_MS;
+  return null;
+}
+
+function describeRange(start: number, end: number): string {
+  const format = (time: number) => formatCalendarDate(new Date(time));
+  return `between ${format(start)} and ${format(end)}`;
+}
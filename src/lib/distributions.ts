@@ -0,0 +1,492 @@
+// ============================================================================
+// DISTRIBUTIONS MODULE - One Distribution Object per Shape
+// ============================================================================
+// Every distribution type becomes a Distribution with sample, pdf, cdf and
+// quantile, all on the unit interval (0 = min of the range, 1 = max) and all
+// cut off at the edges of that interval. randomness.ts samples from it and
+// distributionPDF.ts draws it, so the graph shows exactly what Find Videos picks.
+//
+// SPREAD:
+// For the bell-shaped curves (bell, z-curve, t-curve and each mixture bump)
+// the standard deviation/scale is SPREAD_TO_SIGMA × spread of the range.
+// Triangular uses spread as the half-width of the triangle, exponential as the
+// mean distance from its edge and uniform as the width of the flat window.
+
+import { defaultRandom, type RandomSource } from './rng.js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type DistributionType =
+    | 'uniform'
+    | 'bell'
+    | 'z-curve'
+    | 't-curve'
+    | 'exponential'
+    | 'triangular'
+    | 'beta'
+    | 'mixture';
+
+/**
+ * One extra bump of a mixture distribution (a bell curve)
+ */
+export interface MixtureComponent {
+    center: number;      // 0-1 (percentage of range)
+    spread: number;      // 0-1 (relative spread)
+    weight: number;      // Relative to the main peak, which has weight 1
+}
+
+export interface DistributionConfig {
+    type: DistributionType;
+    center: number;      // 0-1 (percentage of range); peak for triangular/mixture
+    spread: number;      // 0-1 (relative spread); mean distance from the edge for exponential
+    degreesOfFreedom?: number;  // For t-curve (1-30)
+    direction?: 'start' | 'end';  // For exponential: which edge it decays from (default: start)
+    alpha?: number;      // For beta (default: 2)
+    beta?: number;       // For beta (default: 5)
+    components?: MixtureComponent[];  // For mixture: 1-2 bumps besides the main peak at center
+}
+
+/**
+ * A distribution on [0, 1], already cut off at the edges
+ */
+export interface Distribution {
+    type: DistributionType;
+    massInRange: number;                     // Share of the curve inside [0, 1] before cutting it off
+    sample(random?: RandomSource): number;   // Random position in [0, 1]
+    pdf(x: number): number;                  // Density at x (0 outside [0, 1])
+    cdf(x: number): number;                  // Probability of a position ≤ x
+    quantile(p: number): number;             // Position x with cdf(x) = p
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Standard deviation of the bell-shaped curves, as a share of spread
+export const SPREAD_TO_SIGMA = 0.4;
+
+// Narrowest standard deviation allowed (as a share of the range)
+const MIN_SIGMA = 0.02;
+
+// Narrowest triangle/exponential/uniform window allowed (as a share of the range)
+const MIN_SPREAD = 0.05;
+
+// Defaults for the shape-specific settings
+export const DEFAULT_DEGREES_OF_FREEDOM = 5;
+export const DEFAULT_BETA_ALPHA = 2;
+export const DEFAULT_BETA_BETA = 5;
+export const DEFAULT_MIXTURE_COMPONENTS: MixtureComponent[] = [
+    { center: 0.8, spread: 0.08, weight: 0.4 }
+];
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Builds the Distribution for a configuration
+ * @param config - Distribution configuration (type, center, spread, ...)
+ * @returns Distribution on [0, 1], cut off at the edges
+ */
+export function createDistribution(config: DistributionConfig): Distribution {
+    switch (config.type) {
+        case 'uniform':
+            return createUniform(config);
+        case 'bell':
+        case 'z-curve':
+            return createBell(config);
+        case 't-curve':
+            return createTCurve(config);
+        case 'exponential':
+            return createExponential(config);
+        case 'triangular':
+            return createTriangular(config);
+        case 'beta':
+            return createBeta(config);
+        case 'mixture':
+            return createMixture(config);
+        default:
+            return createUniform({ ...config, center: 0.5, spread: 1 });
+    }
+}
+
+/**
+ * Converts a spread into the standard deviation of a bell-shaped curve
+ */
+export function spreadToSigma(spread: number): number {
+    return Math.max(spread * SPREAD_TO_SIGMA, MIN_SIGMA);
+}
+
+/**
+ * Every component of a mixture: the main peak at center/spread plus the extra bumps
+ * Negative weights count as 0.
+ */
+export function mixtureComponents(config: DistributionConfig): MixtureComponent[] {
+    const extras = (config.components ?? DEFAULT_MIXTURE_COMPONENTS).slice(0, 2);
+    return [
+        { center: config.center, spread: config.spread, weight: 1 },
+        ...extras.map(peak => ({ ...peak, weight: Math.max(0, peak.weight) }))
+    ];
+}
+
+// ============================================================================
+// DISTRIBUTION TYPES
+// ============================================================================
+
+/**
+ * UNIFORM - Flat between center ± spread/2 (cut off at the edges)
+ */
+function createUniform(config: DistributionConfig): Distribution {
+    const lower = Math.max(0, config.center - config.spread / 2);
+    const upper = Math.min(1, config.center + config.spread / 2);
+    const width = Math.max(upper - lower, 1e-9);
+
+    return truncate(
+        config.type,
+        x => (x >= lower && x <= upper ? 1 / width : 0),
+        x => Math.min(1, Math.max(0, (x - lower) / width)),
+        p => lower + p * width
+    );
+}
+
+/**
+ * BELL CURVE (Normal Distribution) - Classic symmetric bell shape
+ * Formula: (1 / (σ√(2π))) * e^(-(x-μ)²/(2σ²))
+ */
+function createBell(config: DistributionConfig): Distribution {
+    const sigma = spreadToSigma(config.spread);
+
+    return truncate(
+        config.type,
+        x => normalPDF((x - config.center) / sigma) / sigma,
+        x => normalCDF((x - config.center) / sigma)
+    );
+}
+
+/**
+ * Student's t-distribution - bell curve with heavier tails
+ * Formula: Γ((ν+1)/2) / (√(νπ) * Γ(ν/2)) * (1 + t²/ν)^(-(ν+1)/2)
+ */
+function createTCurve(config: DistributionConfig): Distribution {
+    const scale = spreadToSigma(config.spread);
+    const df = config.degreesOfFreedom || DEFAULT_DEGREES_OF_FREEDOM;
+    const logNormalization = logGamma((df + 1) / 2) - logGamma(df / 2) - 0.5 * Math.log(df * Math.PI);
+
+    return truncate(
+        config.type,
+        x => {
+            const t = (x - config.center) / scale;
+            return Math.exp(logNormalization - ((df + 1) / 2) * Math.log(1 + (t * t) / df)) / scale;
+        },
+        x => tCDF((x - config.center) / scale, df)
+    );
+}
+
+/**
+ * EXPONENTIAL DECAY - Highest at one edge, halving every ~0.7 × spread
+ * Formula: (1/s) * e^(-d/s), where d is the distance from the starting edge
+ */
+function createExponential(config: DistributionConfig): Distribution {
+    const scale = Math.max(config.spread, MIN_SPREAD); // Mean distance from the edge
+    const fromEnd = config.direction === 'end';
+    const distance = (x: number) => (fromEnd ? 1 - x : x);
+
+    return truncate(
+        config.type,
+        x => (distance(x) >= 0 ? Math.exp(-distance(x) / scale) / scale : 0),
+        x => {
+            const tail = Math.exp(-Math.max(distance(x), 0) / scale);
+            return fromEnd ? tail : 1 - tail;
+        },
+        p => (fromEnd ? 1 + scale * Math.log(p) : -scale * Math.log(1 - p))
+    );
+}
+
+/**
+ * TRIANGULAR - Straight lines up to the peak at center and back down
+ * The triangle spans center ± spread (cut off at the edges)
+ */
+function createTriangular(config: DistributionConfig): Distribution {
+    const halfWidth = Math.max(config.spread, MIN_SPREAD);
+    const lower = Math.max(0, config.center - halfWidth);
+    const upper = Math.min(1, config.center + halfWidth);
+    const mode = Math.min(upper, Math.max(lower, config.center));
+    const width = upper - lower;
+    const split = (mode - lower) / width;
+
+    return truncate(
+        config.type,
+        x => {
+            if (x < lower || x > upper) return 0;
+            if (x < mode) return (2 * (x - lower)) / (width * (mode - lower));
+            if (x > mode) return (2 * (upper - x)) / (width * (upper - mode));
+            return 2 / width;
+        },
+        x => {
+            if (x <= lower) return 0;
+            if (x >= upper) return 1;
+            if (x <= mode) return ((x - lower) * (x - lower)) / (width * (mode - lower));
+            return 1 - ((upper - x) * (upper - x)) / (width * (upper - mode));
+        },
+        p => (p < split
+            ? lower + Math.sqrt(p * width * (mode - lower))
+            : upper - Math.sqrt((1 - p) * width * (upper - mode)))
+    );
+}
+
+/**
+ * BETA - Flexible shape on [0, 1] set by α and β
+ * Formula: x^(α-1) * (1-x)^(β-1) / B(α, β)
+ * α > β leans right, α < β leans left, both < 1 makes a U shape
+ */
+function createBeta(config: DistributionConfig): Distribution {
+    const alpha = config.alpha ?? DEFAULT_BETA_ALPHA;
+    const beta = config.beta ?? DEFAULT_BETA_BETA;
+    const logBeta = logGamma(alpha) + logGamma(beta) - logGamma(alpha + beta);
+
+    return truncate(
+        config.type,
+        x => {
+            // Stay just inside the edges, where shapes below 1 shoot off to infinity
+            const clampedX = Math.min(0.999, Math.max(0.001, x));
+            return Math.exp((alpha - 1) * Math.log(clampedX) + (beta - 1) * Math.log(1 - clampedX) - logBeta);
+        },
+        x => regularizedIncompleteBeta(x, alpha, beta)
+    );
+}
+
+/**
+ * MIXTURE - Weighted sum of bell curves: the main peak plus 1-2 extra bumps
+ * (e.g., "mostly 2009 with a bump around 2014")
+ */
+function createMixture(config: DistributionConfig): Distribution {
+    const peaks = mixtureComponents(config).map(peak => ({ ...peak, sigma: spreadToSigma(peak.spread) }));
+    const totalWeight = peaks.reduce((sum, peak) => sum + peak.weight, 0);
+
+    return truncate(
+        config.type,
+        x => peaks.reduce((sum, peak) => sum + peak.weight * normalPDF((x - peak.center) / peak.sigma) / peak.sigma, 0) / totalWeight,
+        x => peaks.reduce((sum, peak) => sum + peak.weight * normalCDF((x - peak.center) / peak.sigma), 0) / totalWeight
+    );
+}
+
+/**
+ * Cuts a distribution off at 0 and 1 and rescales it to fill that interval
+ * @param type - Distribution type (passed through)
+ * @param basePDF - Density before cutting off
+ * @param baseCDF - CDF before cutting off
+ * @param baseQuantile - Closed-form inverse of baseCDF, if there is one (bisection otherwise)
+ */
+function truncate(
+    type: DistributionType,
+    basePDF: (x: number) => number,
+    baseCDF: (x: number) => number,
+    baseQuantile?: (p: number) => number
+): Distribution {
+    const lowerMass = baseCDF(0);
+    const massInRange = baseCDF(1) - lowerMass;
+
+    // Degenerate curves (nothing inside the range) fall back to uniform
+    if (!(massInRange > 0)) {
+        return truncate(type, x => (x >= 0 && x <= 1 ? 1 : 0), x => Math.min(1, Math.max(0, x)), p => p);
+    }
+
+    const cdf = (x: number) => (x <= 0 ? 0 : x >= 1 ? 1 : (baseCDF(x) - lowerMass) / massInRange);
+    const quantile = (p: number) => {
+        const target = Math.min(1, Math.max(0, p));
+        const x = baseQuantile ? baseQuantile(lowerMass + target * massInRange) : invertCDF(cdf, target);
+        return Math.min(1, Math.max(0, x));
+    };
+
+    return {
+        type,
+        massInRange,
+        sample: (random: RandomSource = defaultRandom) => quantile(random()),
+        pdf: x => (x < 0 || x > 1 ? 0 : basePDF(x) / massInRange),
+        cdf,
+        quantile
+    };
+}
+
+/**
+ * Finds x in [0, 1] with cdf(x) = target by bisection
+ * 52 halvings reach the precision of a double, so the cost is bounded.
+ */
+function invertCDF(cdf: (x: number) => number, target: number): number {
+    let low = 0;
+    let high = 1;
+
+    for (let i = 0; i < 52; i++) {
+        const middle = (low + high) / 2;
+        if (cdf(middle) < target) {
+            low = middle;
+        } else {
+            high = middle;
+        }
+    }
+
+    return (low + high) / 2;
+}
+
+// ============================================================================
+// SPECIAL FUNCTIONS
+// ============================================================================
+
+/**
+ * Log-gamma function (Lanczos approximation, g = 7)
+ * Accurate to ~15 digits for any x > 0
+ */
+export function logGamma(x: number): number {
+    if (x < 0.5) {
+        // Reflection formula: Γ(x)Γ(1-x) = π / sin(πx)
+        return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+    }
+
+    const coefficients = [
+        0.99999999999980993, 676.5203681218851, -1259.1392167224028,
+        771.32342877765313, -176.61502916214059, 12.507343278686905,
+        -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7
+    ];
+
+    const z = x - 1;
+    let sum = coefficients[0];
+    for (let i = 1; i < coefficients.length; i++) {
+        sum += coefficients[i] / (z + i);
+    }
+
+    const t = z + 7.5;
+    return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+/**
+ * Complementary error function, erfc(x) = 1 - erf(x)
+ * Chebyshev fit with a relative error below 1.2e-7 everywhere
+ */
+function erfc(x: number): number {
+    const z = Math.abs(x);
+    const t = 1 / (1 + 0.5 * z);
+    const result = t * Math.exp(-z * z - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418 +
+        t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 +
+        t * (-0.82215223 + t * 0.17087277)))))))));
+    return x >= 0 ? result : 2 - result;
+}
+
+/**
+ * Standard normal density, φ(z)
+ */
+export function normalPDF(z: number): number {
+    return Math.exp(-0.5 * z * z) / Math.sqrt(2 * Math.PI);
+}
+
+/**
+ * Standard normal CDF, Φ(z)
+ */
+export function normalCDF(z: number): number {
+    return 0.5 * erfc(-z / Math.SQRT2);
+}
+
+/**
+ * Student's t CDF with the given degrees of freedom
+ */
+export function tCDF(t: number, degreesOfFreedom: number): number {
+    const x = degreesOfFreedom / (degreesOfFreedom + t * t);
+    const tail = 0.5 * regularizedIncompleteBeta(x, degreesOfFreedom / 2, 0.5);
+    return t > 0 ? 1 - tail : tail;
+}
+
+/**
+ * Regularized upper incomplete gamma function Q(a, x) = Γ(a, x) / Γ(a)
+ * Series below a + 1, continued fraction above (both converge fast there)
+ */
+export function regularizedGammaQ(a: number, x: number): number {
+    if (x <= 0) return 1;
+
+    const logFront = -x + a * Math.log(x) - logGamma(a);
+
+    if (x < a + 1) {
+        // Series for the lower function P(a, x)
+        let term = 1 / a;
+        let sum = term;
+        for (let n = 1; n <= 500; n++) {
+            term *= x / (a + n);
+            sum += term;
+            if (Math.abs(term) < Math.abs(sum) * 1e-15) break;
+        }
+        return 1 - sum * Math.exp(logFront);
+    }
+
+    // Continued fraction for Q(a, x) (Lentz's method)
+    const tiny = 1e-30;
+    let b = x + 1 - a;
+    let c = 1 / tiny;
+    let d = 1 / b;
+    let result = d;
+    for (let i = 1; i <= 500; i++) {
+        const an = -i * (i - a);
+        b += 2;
+        d = an * d + b;
+        if (Math.abs(d) < tiny) d = tiny;
+        c = b + an / c;
+        if (Math.abs(c) < tiny) c = tiny;
+        d = 1 / d;
+        const delta = d * c;
+        result *= delta;
+        if (Math.abs(delta - 1) < 1e-15) break;
+    }
+    return Math.exp(logFront) * result;
+}
+
+/**
+ * Regularized incomplete beta function I_x(a, b)
+ * Evaluated with a continued fraction (Lentz's method)
+ */
+export function regularizedIncompleteBeta(x: number, a: number, b: number): number {
+    if (x <= 0) return 0;
+    if (x >= 1) return 1;
+
+    const logFront = a * Math.log(x) + b * Math.log(1 - x) - (logGamma(a) + logGamma(b) - logGamma(a + b));
+
+    // The continued fraction converges fast for x < (a + 1) / (a + b + 2); use symmetry otherwise
+    if (x > (a + 1) / (a + b + 2)) {
+        return 1 - Math.exp(logFront) * betaContinuedFraction(1 - x, b, a) / b;
+    }
+    return Math.exp(logFront) * betaContinuedFraction(x, a, b) / a;
+}
+
+function betaContinuedFraction(x: number, a: number, b: number): number {
+    const tiny = 1e-30;
+    let c = 1;
+    let d = 1 - (a + b) * x / (a + 1);
+    if (Math.abs(d) < tiny) d = tiny;
+    d = 1 / d;
+    let result = d;
+
+    for (let m = 1; m <= 200; m++) {
+        const m2 = 2 * m;
+
+        // Even step
+        let numerator = m * (b - m) * x / ((a + m2 - 1) * (a + m2));
+        d = 1 + numerator * d;
+        if (Math.abs(d) < tiny) d = tiny;
+        c = 1 + numerator / c;
+        if (Math.abs(c) < tiny) c = tiny;
+        d = 1 / d;
+        result *= d * c;
+
+        // Odd step
+        numerator = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1));
+        d = 1 + numerator * d;
+        if (Math.abs(d) < tiny) d = tiny;
+        c = 1 + numerator / c;
+        if (Math.abs(c) < tiny) c = tiny;
+        d = 1 / d;
+        const delta = d * c;
+        result *= delta;
+
+        if (Math.abs(delta - 1) < 1e-12) break;
+    }
+
+    return result;
+}
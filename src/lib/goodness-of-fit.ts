@@ -0,0 +1,349 @@
+// ============================================================================
+// GOODNESS OF FIT - Do the Samplers Match Their Curves?
+// ============================================================================
+// Draws samples from a Distribution and compares them with its theoretical
+// CDF, using two classic tests:
+//
+//   Chi-square:          counts per bin vs. expected counts per bin
+//   Kolmogorov-Smirnov:  largest gap between the sample and theoretical CDF
+//
+// The bins are equal-probability bins (cut with the quantile function), so
+// every bin expects the same count no matter how lopsided the curve is.
+// Samples are drawn with a seeded RNG, so a report is reproducible.
+//
+// The rolls themselves go through the constrained generators in randomness.ts,
+// so those are tested too:
+//
+//   Integers:  counts per integer vs. the curve's share of each integer's bin
+//              (neighbours merged until every bin expects at least 5)
+//   Dates:     dates mapped back to positions in [0, 1], then tested as above
+
+import { createDistribution, regularizedGammaQ, type Distribution, type DistributionConfig } from './distributions.js';
+import { generateConstrainedDate, generateConstrainedInteger } from './randomness.js';
+import { createSeededRandom } from './rng.js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface ChiSquareResult {
+    statistic: number;
+    degreesOfFreedom: number;
+    pValue: number;
+}
+
+export interface KSResult {
+    statistic: number;   // Largest distance between sample CDF and theoretical CDF
+    pValue: number;
+}
+
+export interface FitOptions {
+    sampleSize?: number;     // Samples to draw (default: 2000)
+    binCount?: number;       // Chi-square bins (default: 20)
+    seed?: string | number;  // RNG seed (default: 'goodness-of-fit')
+    significance?: number;   // Fail when a p-value drops below this (default: 0.001)
+}
+
+export interface FitReport {
+    config: DistributionConfig;
+    sampleSize: number;
+    seed: string | number;
+    chiSquare: ChiSquareResult;
+    ks: KSResult;
+    passed: boolean;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_SAMPLE_SIZE = 2000;
+const DEFAULT_BIN_COUNT = 20;
+const DEFAULT_SEED = 'goodness-of-fit';
+
+// Low on purpose: at 0.05 a correct sampler would still fail one check in twenty
+const DEFAULT_SIGNIFICANCE = 0.001;
+
+// Chi-square is unreliable when a bin expects fewer samples than this
+const MIN_EXPECTED_COUNT = 5;
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Sample a configuration with a fixed seed and test the samples against its CDF
+ * @param config - Distribution configuration to test
+ * @param options - Sample size, bins, seed and significance level
+ * @returns Both test results and whether both passed
+ */
+export function testDistributionFit(config: DistributionConfig, options: FitOptions = {}): FitReport {
+    const sampleSize = options.sampleSize ?? DEFAULT_SAMPLE_SIZE;
+    const seed = options.seed ?? DEFAULT_SEED;
+    const significance = options.significance ?? DEFAULT_SIGNIFICANCE;
+
+    const distribution = createDistribution(config);
+    const random = createSeededRandom(seed);
+    const samples = Array.from({ length: sampleSize }, () => distribution.sample(random));
+
+    const chiSquare = chiSquareTest(samples, distribution, options.binCount ?? DEFAULT_BIN_COUNT);
+    const ks = ksTest(samples, distribution);
+
+    return {
+        config,
+        sampleSize,
+        seed,
+        chiSquare,
+        ks,
+        passed: chiSquare.pValue >= significance && ks.pValue >= significance
+    };
+}
+
+/**
+ * Draw integers with generateConstrainedInteger() and test them against the
+ * discretized CDF: integer k of min..max gets the curve's share of the k-th
+ * of max - min + 1 equally wide bins
+ * @param config - Distribution configuration to test
+ * @param min - Smallest integer (inclusive)
+ * @param max - Largest integer (inclusive)
+ * @param options - Sample size, seed and significance level (binCount is not used)
+ * @returns Both test results and whether both passed
+ */
+export function testIntegerSamplerFit(config: DistributionConfig, min: number, max: number, options: FitOptions = {}): FitReport {
+    const sampleSize = options.sampleSize ?? DEFAULT_SAMPLE_SIZE;
+    const seed = options.seed ?? DEFAULT_SEED;
+    const significance = options.significance ?? DEFAULT_SIGNIFICANCE;
+
+    const distribution = createDistribution(config);
+    const count = max - min + 1;
+    const probabilities = Array.from({ length: count }, (_, k) =>
+        distribution.cdf((k + 1) / count) - distribution.cdf(k / count)
+    );
+
+    const random = createSeededRandom(seed);
+    const offsets = Array.from({ length: sampleSize }, () => generateConstrainedInteger(min, max, config, random) - min);
+
+    const chiSquare = discreteChiSquareTest(offsets, probabilities);
+    const ks = discreteKSTest(offsets, probabilities);
+
+    return {
+        config,
+        sampleSize,
+        seed,
+        chiSquare,
+        ks,
+        passed: chiSquare.pValue >= significance && ks.pValue >= significance
+    };
+}
+
+/**
+ * Draw dates with generateConstrainedDate() and test their positions in the
+ * range ((date - start) / (end - start)) against the configuration's CDF
+ * @param config - Distribution configuration to test
+ * @param startDate - Earliest date
+ * @param endDate - Latest date
+ * @param options - Sample size, bins, seed and significance level
+ * @returns Both test results and whether both passed
+ */
+export function testDateSamplerFit(config: DistributionConfig, startDate: Date, endDate: Date, options: FitOptions = {}): FitReport {
+    const sampleSize = options.sampleSize ?? DEFAULT_SAMPLE_SIZE;
+    const seed = options.seed ?? DEFAULT_SEED;
+    const significance = options.significance ?? DEFAULT_SIGNIFICANCE;
+
+    const distribution = createDistribution(config);
+    const startTime = startDate.getTime();
+    const range = endDate.getTime() - startTime;
+
+    const random = createSeededRandom(seed);
+    const samples = Array.from({ length: sampleSize }, () =>
+        (generateConstrainedDate(startDate, endDate, config, random).getTime() - startTime) / range
+    );
+
+    const chiSquare = chiSquareTest(samples, distribution, options.binCount ?? DEFAULT_BIN_COUNT);
+    const ks = ksTest(samples, distribution);
+
+    return {
+        config,
+        sampleSize,
+        seed,
+        chiSquare,
+        ks,
+        passed: chiSquare.pValue >= significance && ks.pValue >= significance
+    };
+}
+
+/**
+ * Pearson's chi-square test with equal-probability bins
+ * @param samples - Positions in [0, 1]
+ * @param distribution - The distribution they should follow
+ * @param binCount - Number of bins (each expects samples.length / binCount)
+ */
+export function chiSquareTest(samples: number[], distribution: Distribution, binCount: number = DEFAULT_BIN_COUNT): ChiSquareResult {
+    // Bin edges at the 1/binCount, 2/binCount, ... quantiles
+    const edges: number[] = [];
+    for (let i = 1; i < binCount; i++) {
+        edges.push(distribution.quantile(i / binCount));
+    }
+
+    const counts = new Array(binCount).fill(0);
+    for (const x of samples) {
+        counts[binIndex(edges, x)]++;
+    }
+
+    const expected = samples.length / binCount;
+    const statistic = counts.reduce((sum, count) => sum + (count - expected) ** 2 / expected, 0);
+    const degreesOfFreedom = binCount - 1;
+
+    return {
+        statistic,
+        degreesOfFreedom,
+        pValue: regularizedGammaQ(degreesOfFreedom / 2, statistic / 2)
+    };
+}
+
+/**
+ * One-sample Kolmogorov-Smirnov test
+ * @param samples - Positions in [0, 1]
+ * @param distribution - The distribution they should follow
+ */
+export function ksTest(samples: number[], distribution: Distribution): KSResult {
+    const sorted = [...samples].sort((a, b) => a - b);
+    const n = sorted.length;
+
+    let statistic = 0;
+    sorted.forEach((x, i) => {
+        const cdf = distribution.cdf(x);
+        statistic = Math.max(statistic, (i + 1) / n - cdf, cdf - i / n);
+    });
+
+    // Asymptotic distribution with Stephens' small-sample correction
+    const sqrtN = Math.sqrt(n);
+    const lambda = (sqrtN + 0.12 + 0.11 / sqrtN) * statistic;
+
+    return { statistic, pValue: kolmogorovQ(lambda) };
+}
+
+/**
+ * Whether a configuration pushes the sampler to its limits
+ * (peak near an edge, very narrow or very wide, heavy tails, U-shaped beta,
+ * or most of the curve cut off) - the cases worth a fit check in the UI.
+ */
+export function isExtremeConfiguration(config: DistributionConfig): boolean {
+    if (config.type === 'uniform') return false;
+
+    const nearEdge = config.center <= 0.1 || config.center >= 0.9;
+    const extremeSpread = config.spread <= 0.05 || config.spread >= 0.8;
+    const heavyTails = config.type === 't-curve' && (config.degreesOfFreedom ?? Infinity) <= 2;
+    const uShaped = config.type === 'beta' && ((config.alpha ?? 2) < 1 || (config.beta ?? 5) < 1);
+
+    return nearEdge || extremeSpread || heavyTails || uShaped || createDistribution(config).massInRange < 0.8;
+}
+
+/**
+ * Short summary of a report, e.g. "χ² p = 0.42 · KS D = 0.013 (p = 0.88)"
+ */
+export function describeFit(report: FitReport): string {
+    const p = (value: number) => (value < 0.001 ? '< 0.001' : `= ${value.toFixed(3)}`);
+    return `χ² p ${p(report.chiSquare.pValue)} · KS D = ${report.ks.statistic.toFixed(3)} (p ${p(report.ks.pValue)})`;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Index of the bin a value falls into (binary search over the inner edges)
+ */
+function binIndex(edges: number[], x: number): number {
+    let low = 0;
+    let high = edges.length;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if (x < edges[mid]) {
+            high = mid;
+        } else {
+            low = mid + 1;
+        }
+    }
+    return low;
+}
+
+/**
+ * Pearson's chi-square test for integer samples
+ * Neighbouring integers are merged into one bin until it expects at least
+ * MIN_EXPECTED_COUNT samples (the last bin joins the one before it if short).
+ * @param offsets - Samples as offsets 0 .. probabilities.length - 1
+ * @param probabilities - Probability of each offset
+ */
+function discreteChiSquareTest(offsets: number[], probabilities: number[]): ChiSquareResult {
+    const counts = new Array(probabilities.length).fill(0);
+    for (const offset of offsets) counts[offset]++;
+
+    const bins: { observed: number; expected: number }[] = [];
+    let current = { observed: 0, expected: 0 };
+    probabilities.forEach((probability, k) => {
+        current.observed += counts[k];
+        current.expected += probability * offsets.length;
+        if (current.expected >= MIN_EXPECTED_COUNT) {
+            bins.push(current);
+            current = { observed: 0, expected: 0 };
+        }
+    });
+    if (bins.length > 0) {
+        bins[bins.length - 1].observed += current.observed;
+        bins[bins.length - 1].expected += current.expected;
+    } else {
+        bins.push(current);
+    }
+
+    const statistic = bins.reduce((sum, bin) => sum + (bin.observed - bin.expected) ** 2 / bin.expected, 0);
+    const degreesOfFreedom = bins.length - 1;
+
+    return {
+        statistic,
+        degreesOfFreedom,
+        // One bin holds everything: nothing to compare
+        pValue: degreesOfFreedom > 0 ? regularizedGammaQ(degreesOfFreedom / 2, statistic / 2) : 1
+    };
+}
+
+/**
+ * Kolmogorov-Smirnov test for integer samples (conservative: for a discrete
+ * distribution the real p-value is at most the one reported)
+ * @param offsets - Samples as offsets 0 .. probabilities.length - 1
+ * @param probabilities - Probability of each offset
+ */
+function discreteKSTest(offsets: number[], probabilities: number[]): KSResult {
+    const counts = new Array(probabilities.length).fill(0);
+    for (const offset of offsets) counts[offset]++;
+
+    const n = offsets.length;
+    let sampleCdf = 0;
+    let cdf = 0;
+    let statistic = 0;
+    probabilities.forEach((probability, k) => {
+        sampleCdf += counts[k] / n;
+        cdf += probability;
+        statistic = Math.max(statistic, Math.abs(sampleCdf - cdf));
+    });
+
+    const sqrtN = Math.sqrt(n);
+    const lambda = (sqrtN + 0.12 + 0.11 / sqrtN) * statistic;
+
+    return { statistic, pValue: kolmogorovQ(lambda) };
+}
+
+/**
+ * Kolmogorov survival function Q(λ) = 2 Σ (-1)^(j-1) e^(-2j²λ²)
+ */
+function kolmogorovQ(lambda: number): number {
+    if (lambda < 0.2) return 1;
+
+    let sum = 0;
+    for (let j = 1; j <= 100; j++) {
+        const term = Math.exp(-2 * j * j * lambda * lambda);
+        sum += (j % 2 === 1 ? 1 : -1) * term;
+        if (term < 1e-12) break;
+    }
+    return Math.min(1, Math.max(0, 2 * sum));
+}
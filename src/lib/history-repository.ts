@@ -0,0 +1,329 @@
+/**
+ * History Repository - Persistent storage for the search history
+ *
+ * RESPONSIBILITIES:
+ * Keeps every rolled search while persistent history is enabled (the
+ * "enablePersistentHistory" preference in +page.svelte). Entries are written
+ * one by one to a storage backend, so the history can grow without limit:
+ *  1. IndexedDB (database "the-method", store "searchHistory") when available
+ *  2. localStorage (key "searchHistoryRepository") as a fallback
+ *  3. Memory only (no persistence) outside the browser
+ *
+ * Also filters the history by text and splits it into pages for the History tab.
+ *
+ * MIGRATION:
+ * Versions before the repository kept the whole history JSON-encoded in one
+ * "searchHistory" cookie, which browsers cap at about 4 KB. On the first load
+ * its entries are moved into the repository and the cookie is deleted.
+ */
+
+import type { SelectionStrategy } from './selection.js';
+import type { RollRecord } from './roll.js';
+import type { SearchRating } from './ratings.js';
+import { openAppDatabase, runStoreRequest, HISTORY_STORE } from './app-database.js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * One rolled search
+ */
+export interface SearchHistoryEntry {
+  id: string;
+  name: string;
+  specifier: string;              // Filled specifier ("1234")
+  url: string;
+  timestamp: Date;
+  dateModifier?: string;          // Date filter in the URL, e.g., "before:2024-11-25"
+  seed?: string;                  // Seed that regenerates this exact URL
+  platform?: string;              // Search platform id (missing = YouTube)
+  strategy?: SelectionStrategy;   // How the term was picked (missing = 'pattern')
+  context?: RollRecord;           // Everything the roll used, for replays (missing before replays existed)
+  rating?: SearchRating;          // How the search turned out (see ratings.ts)
+}
+
+export type NewHistoryEntry = Omit<SearchHistoryEntry, 'id'>;
+
+/**
+ * Where the repository keeps the history
+ */
+export interface HistoryStorage {
+  kind: 'indexeddb' | 'localstorage' | 'memory';
+  getAll(): Promise<SearchHistoryEntry[]>;
+  put(entry: SearchHistoryEntry): Promise<void>;
+  delete(id: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface HistoryRepository {
+  load(): Promise<SearchHistoryEntry[]>;
+  list(): SearchHistoryEntry[];
+  add(entries: SearchHistoryEntry[]): Promise<void>;
+  update(entry: SearchHistoryEntry): Promise<boolean>;
+  remove(id: string): Promise<boolean>;
+  clear(): Promise<void>;
+  storageKind(): HistoryStorage['kind'] | null;
+}
+
+/**
+ * One page of a list
+ */
+export interface HistoryPage<T> {
+  items: T[];
+  page: number;         // 0-based, clamped to the pages that exist
+  pageCount: number;    // At least 1
+  total: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const LOCAL_STORAGE_KEY = 'searchHistoryRepository';
+
+// Where versions before the repository kept the history
+export const LEGACY_HISTORY_COOKIE = 'searchHistory';
+
+// ============================================================================
+// PUBLIC API: REPOSITORY
+// ============================================================================
+
+/**
+ * Create a repository
+ * @param storage - Backend to use (default: IndexedDB, falling back to localStorage, then memory)
+ */
+export function createHistoryRepository(storage?: HistoryStorage): HistoryRepository {
+  let entries: SearchHistoryEntry[] = [];
+  let backend: HistoryStorage | null = storage ?? null;
+  let loading: Promise<SearchHistoryEntry[]> | null = null;
+
+  async function ready(): Promise<HistoryStorage> {
+    await load();
+    return backend as HistoryStorage;
+  }
+
+  function load(): Promise<SearchHistoryEntry[]> {
+    if (!loading) {
+      loading = (async () => {
+        backend = backend ?? await openDefaultStorage();
+        const stored = (await backend.getAll()).map(reviveEntry);
+        const migrated = await migrateCookieHistory(backend);
+        entries = sortNewestFirst([...stored, ...migrated]);
+        return [...entries];
+      })().catch(error => {
+        loading = null; // Let the next call try again
+        throw error;
+      });
+    }
+    return loading;
+  }
+
+  return {
+    load,
+
+    list: () => [...entries],
+
+    async add(newEntries) {
+      const store = await ready();
+      const known = new Set(entries.map(entry => entry.id));
+      const added = newEntries.filter(entry => !known.has(entry.id));
+      for (const entry of added) {
+        await store.put(entry);
+      }
+      entries = sortNewestFirst([...added, ...entries]);
+    },
+
+    async update(entry) {
+      const store = await ready();
+      if (!entries.some(existing => existing.id === entry.id)) return false;
+
+      await store.put(entry);
+      entries = entries.map(existing => existing.id === entry.id ? entry : existing);
+      return true;
+    },
+
+    async remove(id) {
+      const store = await ready();
+      if (!entries.some(entry => entry.id === id)) return false;
+
+      await store.delete(id);
+      entries = entries.filter(entry => entry.id !== id);
+      return true;
+    },
+
+    async clear() {
+      const store = await ready();
+      await store.clear();
+      entries = [];
+    },
+
+    storageKind: () => backend?.kind ?? null
+  };
+}
+
+/**
+ * The repository shared by the app
+ */
+export const historyRepository: HistoryRepository = createHistoryRepository();
+
+/**
+ * Give a new search an id
+ */
+export function createHistoryEntry(entry: NewHistoryEntry): SearchHistoryEntry {
+  return { ...entry, id: generateEntryId() };
+}
+
+// ============================================================================
+// PUBLIC API: SEARCH AND PAGINATION
+// ============================================================================
+
+/**
+ * Entries whose name, specifier, seed, platform, date or URL contain the query (case-insensitive)
+ */
+export function filterSearchHistory(entries: SearchHistoryEntry[], query: string): SearchHistoryEntry[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return entries;
+
+  return entries.filter(entry =>
+    [entry.name, entry.specifier, entry.seed, entry.platform, entry.dateModifier, entry.url]
+      .some(field => field?.toLowerCase().includes(needle))
+  );
+}
+
+/**
+ * One page of a list (pages past the end show the last page)
+ */
+export function paginate<T>(items: T[], page: number, pageSize: number): HistoryPage<T> {
+  const pageCount = Math.max(1, Math.ceil(items.length / pageSize));
+  const clamped = Math.min(Math.max(0, page), pageCount - 1);
+  return {
+    items: items.slice(clamped * pageSize, (clamped + 1) * pageSize),
+    page: clamped,
+    pageCount,
+    total: items.length
+  };
+}
+
+// ============================================================================
+// STORAGE BACKENDS
+// ============================================================================
+
+/**
+ * IndexedDB backend (one record per entry, keyed by id)
+ * @returns The backend, or null when IndexedDB isn't available or won't open
+ */
+export async function createIndexedDBHistoryStorage(): Promise<HistoryStorage | null> {
+  const db = await openAppDatabase();
+  if (!db) return null;
+
+  const run = <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) =>
+    runStoreRequest(HISTORY_STORE, mode, action);
+
+  return {
+    kind: 'indexeddb',
+    getAll: () => run<SearchHistoryEntry[]>('readonly', store => store.getAll()),
+    put: async (entry) => { await run('readwrite', store => store.put(entry)); },
+    delete: async (id) => { await run('readwrite', store => store.delete(id)); },
+    clear: async () => { await run('readwrite', store => store.clear()); }
+  };
+}
+
+/**
+ * localStorage backend (the whole history as one JSON array)
+ * @returns The backend, or null when localStorage isn't available
+ */
+export function createLocalStorageHistoryStorage(key: string = LOCAL_STORAGE_KEY): HistoryStorage | null {
+  if (typeof localStorage === 'undefined') return null;
+
+  const read = (): SearchHistoryEntry[] => {
+    try {
+      const parsed = JSON.parse(localStorage.getItem(key) || '[]');
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.warn(`Could not read "${key}" from localStorage:`, error);
+      return [];
+    }
+  };
+  const write = (entries: SearchHistoryEntry[]) => localStorage.setItem(key, JSON.stringify(entries));
+
+  return {
+    kind: 'localstorage',
+    getAll: async () => read(),
+    put: async (entry) => write([...read().filter(existing => existing.id !== entry.id), entry]),
+    delete: async (id) => write(read().filter(entry => entry.id !== id)),
+    clear: async () => localStorage.removeItem(key)
+  };
+}
+
+/**
+ * Memory-only backend (nothing survives a reload)
+ */
+export function createMemoryHistoryStorage(initial: SearchHistoryEntry[] = []): HistoryStorage {
+  const records = new Map(initial.map(entry => [entry.id, entry]));
+
+  return {
+    kind: 'memory',
+    getAll: async () => [...records.values()],
+    put: async (entry) => { records.set(entry.id, entry); },
+    delete: async (id) => { records.delete(id); },
+    clear: async () => records.clear()
+  };
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+async function openDefaultStorage(): Promise<HistoryStorage> {
+  return (await createIndexedDBHistoryStorage()) ?? createLocalStorageHistoryStorage() ?? createMemoryHistoryStorage();
+}
+
+function generateEntryId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return `history-${crypto.randomUUID()}`;
+  }
+  return `history-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Timestamps come back from JSON (localStorage, the old cookie) as strings
+ */
+function reviveEntry(entry: SearchHistoryEntry): SearchHistoryEntry {
+  return entry.timestamp instanceof Date ? entry : { ...entry, timestamp: new Date(entry.timestamp) };
+}
+
+function sortNewestFirst(entries: SearchHistoryEntry[]): SearchHistoryEntry[] {
+  return entries.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+}
+
+/**
+ * Move the entries of the old "searchHistory" cookie into the repository
+ * The cookie is only deleted after every entry was written.
+ */
+async function migrateCookieHistory(storage: HistoryStorage): Promise<SearchHistoryEntry[]> {
+  if (typeof document === 'undefined') return [];
+
+  const prefix = `${LEGACY_HISTORY_COOKIE}=`;
+  const cookie = document.cookie.split(';').map(part => part.trim()).find(part => part.startsWith(prefix));
+  if (cookie === undefined) return [];
+
+  let legacy: unknown;
+  try {
+    legacy = JSON.parse(decodeURIComponent(cookie.slice(prefix.length)));
+  } catch (error) {
+    console.warn(`Could not read the legacy "${LEGACY_HISTORY_COOKIE}" cookie; leaving it in place:`, error);
+    return [];
+  }
+
+  const migrated = (Array.isArray(legacy) ? legacy : [])
+    .filter(entry => typeof entry?.url === 'string')
+    .map(entry => createHistoryEntry(reviveEntry(entry as SearchHistoryEntry)));
+  for (const entry of migrated) {
+    await storage.put(entry);
+  }
+
+  document.cookie = `${LEGACY_HISTORY_COOKIE}=;expires=Thu, 01 Jan 1970 00:00:00 UTC;path=/;`;
+  console.log('Migrated', migrated.length, 'search history entries from the cookie into the history repository');
+  return migrated;
+}
@@ -16,12 +16,314 @@ export { loadAllSearchTerms, saveSearchTerm, updateSearchTerm, deleteSearchTerm
 // ============================================================================
 // TYPES (from method-logic.ts)
 // ============================================================================
-export type { SearchPattern, Constraint } from './method-logic.js';
+export type { SearchPattern, Constraint, PatternSource } from './method-logic.js';
+
+// ============================================================================
+// USER TERM STORAGE (from term-repository.ts)
+// ============================================================================
+export {
+  termRepository,
+  createTermRepository,
+  createIndexedDBStorage,
+  createLocalStorageStorage,
+  createMemoryStorage
+} from './term-repository.js';
+export type { StoredSearchTerm, TermRepository, TermStorage, TermListener, TermChangeType } from './term-repository.js';
+
+// ============================================================================
+// SEARCH HISTORY STORAGE (from history-repository.ts)
+// ============================================================================
+export {
+  historyRepository,
+  createHistoryRepository,
+  createHistoryEntry,
+  filterSearchHistory,
+  paginate,
+  createIndexedDBHistoryStorage,
+  createLocalStorageHistoryStorage,
+  createMemoryHistoryStorage
+} from './history-repository.js';
+export type {
+  SearchHistoryEntry,
+  NewHistoryEntry,
+  HistoryRepository,
+  HistoryStorage,
+  HistoryPage
+} from './history-repository.js';
+
+// ============================================================================
+// SEARCH RATINGS AND ADAPTIVE WEIGHTING (from ratings.ts)
+// ============================================================================
+export {
+  aggregateRatings,
+  adaptiveMultiplier,
+  applyAdaptiveWeights,
+  loadAdaptiveWeighting,
+  saveAdaptiveWeighting,
+  isSearchRating,
+  SEARCH_RATINGS,
+  SEARCH_RATING_LABELS,
+  SEARCH_RATING_ICONS,
+  ADAPTIVE_STRENGTH,
+  MIN_ADAPTIVE_MULTIPLIER
+} from './ratings.js';
+export type { SearchRating, RatingStats, SpecifierRatingStats, PatternRatingStats } from './ratings.js';
+
+// ============================================================================
+// QUERY SPACE AND NO-REPEAT ROLLS (from query-space.ts)
+// ============================================================================
+export {
+  querySpaceSize,
+  querySpaceStatus,
+  enumerateSpecifierValues,
+  specifierValueAt,
+  collectUsedQueries,
+  withoutExhausted,
+  exhaustedQueries,
+  pickUnusedSpecifier,
+  loadNoRepeat,
+  saveNoRepeat,
+  queryKey,
+  ENUMERATION_LIMIT
+} from './query-space.js';
+export type { UsedQueries, QuerySpaceStatus, UnusedSpecifierPick } from './query-space.js';
+
+// ============================================================================
+// SPECIFIER SWEEPS (from sweep.ts)
+// ============================================================================
+export {
+  canSweep,
+  startSweep,
+  stopSweep,
+  advanceSweep,
+  nextSweepStep,
+  sweepProgress,
+  loadSweeps,
+  saveSweeps,
+  isSweepOrder,
+  SWEEP_ORDER_LABELS,
+  MAX_SWEEP_SIZE
+} from './sweep.js';
+export type { SweepOrder, SweepCursor, SweepCursors, SweepStep } from './sweep.js';
+
+// ============================================================================
+// TERM SCHEMA (from term-schema.ts)
+// ============================================================================
+export {
+  validateSearchPattern,
+  validateSearchTermsFile,
+  formatSchemaErrors,
+  migrateSearchPattern,
+  migrateSearchTermsFile,
+  dateLimitConstraints,
+  dateLimitFromConstraints,
+  TERM_SCHEMA_VERSION,
+  CONSTRAINT_TYPES
+} from './term-schema.js';
+export type { SearchTermsFile, SchemaError, MigrationResult, DateLimitType } from './term-schema.js';
+
+// ============================================================================
+// TERM PACKS (from term-packs.ts)
+// ============================================================================
+export {
+  parseTermPack,
+  loadInstalledPacks,
+  saveInstalledPacks,
+  installTermPack,
+  setTermPackEnabled,
+  removeTermPack,
+  buildTermPool,
+  createPatternId,
+  patternKey,
+  describePatternSource,
+  BUILT_IN_SOURCE,
+  CUSTOM_SOURCE
+} from './term-packs.js';
+export type { TermPack, TermPackMetadata, InstalledTermPack, ParsedTermPack } from './term-packs.js';
+
+// ============================================================================
+// TERM TAGS (from term-tags.ts)
+// ============================================================================
+export {
+  genreTag,
+  patternTags,
+  normalizeTag,
+  tagIsWithin,
+  parseTagList,
+  formatTagList,
+  buildTagTree,
+  flattenTagTree,
+  matchesTagFilter,
+  cycleTagInFilter,
+  tagFilterState,
+  GENRE_TAGS,
+  NSFW_TAG,
+  DEFAULT_TAG_FILTER,
+  TAG_SEPARATOR
+} from './term-tags.js';
+export type { TagFilter, TagMatchMode, TagNode } from './term-tags.js';
+
+// ============================================================================
+// WEIGHTED SELECTION (from selection.ts)
+// ============================================================================
+export {
+  pickWeighted,
+  selectionOdds,
+  patternWeight,
+  specifierWeight,
+  hasCustomWeights,
+  formatProbability,
+  loadGenreWeights,
+  saveGenreWeights,
+  loadSelectionStrategy,
+  saveSelectionStrategy,
+  isSelectionStrategy,
+  DEFAULT_WEIGHT,
+  DEFAULT_STRATEGY,
+  SELECTION_STRATEGY_LABELS
+} from './selection.js';
+export type {
+  GenreWeights,
+  SelectionStrategy,
+  SelectionOptions,
+  SelectionCandidate,
+  SelectionResult,
+  SelectionOdds
+} from './selection.js';
+
+// ============================================================================
+// ROLLS AND DRY RUNS (from roll.ts)
+// ============================================================================
+export { rollSearch, previewRolls, patternCandidates, createRollRecord, replayRoll, similarRollSettings, findRecordedPattern, parseRollSeed, formatRollSeed } from './roll.js';
+export type { RollSettings, RollQueryOptions, RolledSearch, RollRecord, RollSeed, PreviewRoll } from './roll.js';
+
+// ============================================================================
+// TERM LINT (from term-lint.ts)
+// ============================================================================
+export { lintSearchPatterns, lintSearchTermsFile, countLintIssues, formatLintIssue } from './term-lint.js';
+export type { LintIssue, LintRule, LintSeverity } from './term-lint.js';
+
+// ============================================================================
+// TERM FILE FORMATS (from term-formats.ts)
+// ============================================================================
+export {
+  detectTermFileFormat,
+  previewTermImport,
+  importablePatterns,
+  parseCSV,
+  guessCSVColumnMapping,
+  inferPatternFromLine,
+  termsToCSV,
+  termsToText,
+  termsToJSON,
+  CSV_FIELDS
+} from './term-formats.js';
+export type {
+  TermFileFormat,
+  CSVField,
+  CSVColumnMapping,
+  CSVRecord,
+  TermImportRow,
+  TermImportPreview
+} from './term-formats.js';
 
 // ============================================================================
 // URL FORMATTING (from search-settings.ts)
 // ============================================================================
-export { formatSearchTermToURL, fillSpecifierTemplate } from './search-settings.js';
+export {
+  formatSearchTermToURL,
+  buildSearchQuery,
+  withQueryText,
+  composeQueryText,
+  formatExcludeTerm,
+  parseQueryTerms,
+  fillSpecifierTemplate,
+  resolveSpecifierFields
+} from './search-settings.js';
+export type { SearchQuery, SearchQueryOptions, ResolvedField } from './search-settings.js';
+
+// ============================================================================
+// SEARCH PLATFORMS (from search-platforms.ts)
+// ============================================================================
+export {
+  SEARCH_PLATFORMS,
+  SEARCH_PLATFORM_LIST,
+  DEFAULT_PLATFORM_ID,
+  getSearchPlatform,
+  patternPlatforms,
+  resolvePlatform,
+  formatOperatorDateFilter
+} from './search-platforms.js';
+export type {
+  SearchPlatform,
+  SearchPlatformId,
+  PlatformChoice,
+  ResolvedPlatform,
+  SearchDateFilter,
+  PlatformSearchInput,
+  PlatformSearchURL
+} from './search-platforms.js';
+
+// ============================================================================
+// YOUTUBE SEARCH FILTERS (from youtube-filters.ts)
+// ============================================================================
+export {
+  encodeYouTubeFilters,
+  decodeYouTubeFilters,
+  decodeYouTubeFiltersFromURL,
+  describeYouTubeFilters,
+  patternYouTubeFilters,
+  mergeYouTubeFilters,
+  DEFAULT_YOUTUBE_FILTERS,
+  YOUTUBE_FEATURES,
+  YOUTUBE_FILTER_LABELS
+} from './youtube-filters.js';
+export type {
+  YouTubeSearchFilters,
+  YouTubeSortOrder,
+  YouTubeUploadDate,
+  YouTubeResultType,
+  YouTubeDuration,
+  YouTubeFeature
+} from './youtube-filters.js';
+
+// ============================================================================
+// DATE WINDOWS (from date-window.ts)
+// ============================================================================
+export { resolveDateWindow, sampleDateInWindow, startOfDay, parseCalendarDate, formatCalendarDate, EARLIEST_SEARCH_DATE } from './date-window.js';
+export type { DateWindow, DateWindowOptions, DateWindowConflict, DateOverride, AgeFilter } from './date-window.js';
+
+// ============================================================================
+// SPECIFIER TEMPLATES (from specifier-template.ts)
+// ============================================================================
+export { parseSpecifierTemplate, validateSpecifierTemplate, detectTemplateSyntax, parseFieldRange } from './specifier-template.js';
+export type { ParsedTemplate, TemplateToken, TemplateParseError, TemplateSyntax } from './specifier-template.js';
+
+// ============================================================================
+// DISTRIBUTIONS (from distributions.ts)
+// ============================================================================
+export { createDistribution, spreadToSigma, mixtureComponents } from './distributions.js';
+export type { Distribution, DistributionConfig, DistributionType, MixtureComponent } from './distributions.js';
+
+// ============================================================================
+// GOODNESS OF FIT (from goodness-of-fit.ts)
+// ============================================================================
+export {
+  testDistributionFit,
+  testIntegerSamplerFit,
+  testDateSamplerFit,
+  chiSquareTest,
+  ksTest,
+  isExtremeConfiguration,
+  describeFit
+} from './goodness-of-fit.js';
+export type { FitReport, FitOptions, ChiSquareResult, KSResult } from './goodness-of-fit.js';
+
+// ============================================================================
+// SEEDABLE RANDOMNESS (from rng.ts)
+// ============================================================================
+export { createSeededRandom, generateSeed, randomChoice, randomInt, weightedChoice } from './rng.js';
+export type { RandomSource } from './rng.js';
 
 // ============================================================================
 // DEPRECATED (kept for backward compatibility - will be removed)
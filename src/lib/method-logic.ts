@@ -3,24 +3,30 @@
  *
  * REFACTORED RESPONSIBILITIES:
  * This module is now ONLY responsible for reading and writing search term objects
- * to/from the JSON file. All parsing, filtering, and formatting logic has been
- * moved to search-settings.ts.
+ * (built-in ones from the JSON file, the user's own via term-repository.ts).
+ * All parsing, filtering, and formatting logic has been moved to search-settings.ts.
  *
  * FUNCTIONS:
  *  - loadAllSearchTerms(): Load all search term objects from JSON as a unified list
- *  - saveSearchTerm(): Save a new search term object to the JSON file
- *  - updateSearchTerm(): Update an existing search term in the JSON file
- *  - deleteSearchTerm(): Remove a search term from the JSON file
+ *  - saveSearchTerm(): Save a new user search term (term repository)
+ *  - updateSearchTerm(): Update a user search term by id (term repository)
+ *  - deleteSearchTerm(): Remove a user search term by id (term repository)
  *
  * Each search term object contains:
  *  - name: string
  *  - specifier: string (template like "YYYY MM DD", "XXXX", etc.)
- *  - genre: string
+ *  - genre: string (also the pattern's primary tag, see term-tags.ts)
+ *  - tags?: string[] (more hierarchical tags, like "Device/Phone" or "Era/2000s")
+ *  - weight?, specifierWeights?: how often it is picked (see selection.ts)
+ *  - excludeTerms?, operators?: extra words for the query (see search-settings.ts)
  *  - age: 'new' | 'old' | ''
  *  - constraints: Constraint[]
+ * (full, versioned schema in term-schema.ts)
  */
 
 import searchTermsData from './search-terms.json' with { type: "json" };
+import { termRepository, type StoredSearchTerm } from './term-repository.js';
+import { validateSearchTermsFile, formatSchemaErrors, type SearchTermsFile } from './term-schema.js';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -29,25 +35,44 @@ import searchTermsData from './search-terms.json' with { type: "json" };
 interface Constraint {
   type: 'year' | 'date-before' | 'date-after' | 'range' | 'time-range' | 'letter-range' | 'hex-range' | 'filter' | 'category';
   value: string | number;
+  // For range-style constraints: which random (X) field this applies to, by
+  // 0-based index or by name ({X3=serial}). Omitted = every untargeted field.
+  field?: number | string;
 }
 
 interface SearchPattern {
   name: string;
   specifiers: string[];  // Array of specifier templates like ["YYYY MM DD", "XXXX", ""]
   genre: string;
+  tags?: string[];       // Hierarchical tags besides the genre ("Device/Camera/Dashcam", "Era/2000s")
   age: 'new' | 'old' | '';
   constraints: Constraint[];
+  platforms?: string[];  // Search platform ids this pattern makes sense on (default: all)
+  weight?: number;       // Relative chance of being picked (default 1, 0 = never; see selection.ts)
+  specifierWeights?: Record<string, number>;  // Relative chance per specifier, keyed by specifier (default 1)
+  excludeTerms?: string[]; // Words the results must not contain ("minecraft" → -minecraft)
+  operators?: string[];    // Extra unquoted words or operators added to the query ("vlog", "intitle:clip")
+  source?: PatternSource;  // Where the pattern came from (set by buildTermPool, not stored)
+  patternId?: string;      // Stable id in the term pool, e.g. "built-in:1x2y3z" (set by buildTermPool, not stored)
 }
 
-interface SearchTermsData {
-  patterns: SearchPattern[];
+/**
+ * Where a pattern in the term pool came from (built-in list, a term pack or custom terms)
+ */
+interface PatternSource {
+  kind: 'built-in' | 'pack' | 'custom';
+  id: string;            // Pack id, or 'built-in' / 'custom'
+  name: string;
+  version?: string;
+  author?: string;
+  license?: string;
 }
 
 // ============================================================================
 // EXPORT TYPES
 // ============================================================================
 
-export type { SearchPattern, Constraint };
+export type { SearchPattern, Constraint, PatternSource };
 
 // ============================================================================
 // PUBLIC API: DATA LOADING
@@ -60,50 +85,45 @@ export type { SearchPattern, Constraint };
  * This will be called by +page.svelte to populate allSearchTerms
  */
 export function loadAllSearchTerms(): SearchPattern[] {
-  const data = searchTermsData as SearchTermsData;
+  const data = searchTermsData as SearchTermsFile;
+
+  const errors = validateSearchTermsFile(data);
+  if (errors.length > 0) {
+    console.warn('search-terms.json does not match the term schema:\n' + formatSchemaErrors(errors).join('\n'));
+  }
+
   console.log('Loaded', data.patterns.length, 'search terms from JSON');
   return data.patterns;
 }
 
 // ============================================================================
-// PUBLIC API: DATA SAVING (Future Implementation)
+// PUBLIC API: DATA SAVING (user terms, via term-repository.ts)
 // ============================================================================
 
-// Basically, we want to give the user their own copy of search-terms.json, and
-// they can edit it and save the changes locally through cookies or something.
+// The built-in search-terms.json is read-only; the user's own terms live in the
+// term repository (IndexedDB, or localStorage as a fallback).
 
 /**
- * Save a new search term object to the JSON file
- *
- * TODO: Implement this function to add a new search term
- * Note: This will require file system access, which may not be possible
- * in a browser environment. Consider using a backend API for this.
+ * Save a new search term to the user's term repository
+ * @returns The stored term, including its new id
  */
-export function saveSearchTerm(pattern: SearchPattern): void {
-  // TODO: Implement save functionality
-  // This might require a backend endpoint
-  console.warn('saveSearchTerm not yet implemented');
+export function saveSearchTerm(pattern: SearchPattern): Promise<StoredSearchTerm> {
+  return termRepository.add(pattern);
 }
 
 /**
- * Update an existing search term in the JSON file
- *
- * TODO: Implement this function to modify an existing search term
+ * Update an existing search term in the user's term repository
+ * @param pattern - The term with its id and the changed fields
+ * @returns The updated term, or null when no term has that id
  */
-export function updateSearchTerm(pattern: SearchPattern): void {
-  // TODO: Implement update functionality
-  console.warn('updateSearchTerm not yet implemented');
+export function updateSearchTerm(pattern: StoredSearchTerm): Promise<StoredSearchTerm | null> {
+  return termRepository.update(pattern.id, pattern);
 }
 
 /**
- * Delete a search term from the JSON file
- *
- * TODO: Implement this function to remove a search term
+ * Delete a search term from the user's term repository
+ * @returns False when no term has that id
  */
-export function deleteSearchTerm(patternId: string): void {
-  // TODO: Implement delete functionality
-  console.warn('deleteSearchTerm not yet implemented');
+export function deleteSearchTerm(patternId: string): Promise<boolean> {
+  return termRepository.remove(patternId);
 }
-
-
-
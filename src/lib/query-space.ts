@@ -0,0 +1,349 @@
+/**
+ * Query Space - How many different queries a specifier can produce, and no-repeat rolls
+ *
+ * RESPONSIBILITIES:
+ * Many specifiers only have a few hundred values: "MOL0" + a hex field 00-F9
+ * is 250 queries, "XX" is 100. In no-repeat mode (opt-in, kept in
+ * localStorage) a roll skips the queries already in the search history:
+ *  - querySpaceSize()        Number of filled values a specifier template can produce
+ *  - collectUsedQueries()    The filled values already searched, per pattern + template
+ *  - withoutExhausted()      Drops the templates (and patterns) whose every value was searched
+ *  - pickUnusedSpecifier()   Fills a template with a value that wasn't searched yet
+ *  - specifierValueAt()      The n-th value of a template, for sweeps (see sweep.ts)
+ *
+ * Templates with a date placeholder (YYYY, MM, ...) change with the rolled
+ * date, so their space counts as unlimited and is never exhausted.
+ * Only history entries that recorded their template (see roll.ts) count.
+ * Used values are kept per pattern id + template (see patternKey() in
+ * term-packs.ts): two patterns can share a name and a template but not a space,
+ * like "MOL0" + XX as hex 00-F9 and as decimal 00-99.
+ */
+
+import type { SearchPattern } from './method-logic.js';
+import type { DistributionConfig } from './randomness.js';
+import type { SelectionCandidate } from './selection.js';
+import type { SearchHistoryEntry } from './history-repository.js';
+import { randomChoice, type RandomSource } from './rng.js';
+import { parseSpecifierTemplate } from './specifier-template.js';
+import { fillSpecifierTemplate, resolveSpecifierFields, type ResolvedField } from './search-settings.js';
+import { patternKey } from './term-packs.js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Filled specifiers already searched, keyed "pattern id|||template" (see queryKey())
+ */
+export type UsedQueries = Map<string, Set<string>>;
+
+export interface QuerySpaceStatus {
+  size: number;           // Infinity when the template has a date placeholder
+  used: number;           // Different values of the space already searched
+  remaining: number;
+  exhausted: boolean;
+}
+
+/**
+ * What pickUnusedSpecifier() found
+ * Without a value, `reason` says whether every value was searched ('exhausted')
+ * or the space is too large to list and random draws kept hitting searched
+ * values ('gave-up'; unsearched values may be left).
+ */
+export type UnusedSpecifierPick =
+  | { value: string }
+  | { value: null; reason: 'exhausted' | 'gave-up' };
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const NO_REPEAT_KEY = 'noRepeatQueries';
+
+// Spaces up to this size are listed when random draws keep hitting searched values
+export const ENUMERATION_LIMIT = 100000;
+
+// Draws tried before listing the remaining values (or giving up on larger spaces)
+const MAX_REDRAWS = 50;
+
+// ============================================================================
+// PUBLIC API: SPACE SIZE
+// ============================================================================
+
+/**
+ * Number of different values a specifier template can be filled with
+ * @returns 1 for an empty or literal-only template, Infinity with a date placeholder
+ */
+export function querySpaceSize(pattern: SearchPattern, specifier: string): number {
+  if (!specifier) return 1;
+
+  const parsed = parseSpecifierTemplate(specifier);
+  if (parsed.tokens.some(token => token.type === 'date')) return Infinity;
+
+  return resolveSpecifierFields(specifier, pattern).reduce((size, field) => size * fieldSize(field), 1);
+}
+
+/**
+ * How much of a template's space was already searched
+ * Searched values outside the space (recorded before the pattern's range
+ * changed, say) don't count.
+ */
+export function querySpaceStatus(pattern: SearchPattern, specifier: string, used: UsedQueries): QuerySpaceStatus {
+  const size = querySpaceSize(pattern, specifier);
+  const values = [...used.get(queryKey(pattern, specifier)) ?? []];
+  const usedCount = size === Infinity ? values.length : values.filter(value => isSpecifierValue(pattern, specifier, value)).length;
+  const remaining = Math.max(0, size - usedCount);
+  return { size, used: usedCount, remaining, exhausted: remaining === 0 };
+}
+
+/**
+ * Every value a template can be filled with
+ * @returns The values, or null when the space is unlimited or larger than `limit`
+ */
+export function enumerateSpecifierValues(
+  pattern: SearchPattern,
+  specifier: string,
+  limit: number = ENUMERATION_LIMIT
+): string[] | null {
+  if (querySpaceSize(pattern, specifier) > limit) return null;
+  if (!specifier) return [''];
+
+  const fields = resolveSpecifierFields(specifier, pattern);
+  let values = [''];
+  for (const token of parseSpecifierTemplate(specifier).tokens) {
+    if (token.type === 'literal') {
+      values = values.map(value => value + token.text);
+    } else if (token.type === 'field') {
+      const options = fieldValues(fields[token.index]);
+      values = values.flatMap(value => options.map(option => value + option));
+    }
+  }
+  return values;
+}
+
+/**
+ * The value at one position of a template's space, in counting order
+ * The last field changes fastest, so "XXXX" gives 0000, 0001, 0002, ...
+ * @returns The value, or null when the space is unlimited or index is outside it
+ */
+export function specifierValueAt(pattern: SearchPattern, specifier: string, index: number): string | null {
+  const size = querySpaceSize(pattern, specifier);
+  if (!Number.isInteger(index) || index < 0 || index >= size) return null;
+  if (!specifier) return '';
+
+  // Mixed-radix digits, one per field, last field first
+  const fields = resolveSpecifierFields(specifier, pattern);
+  const offsets: number[] = [];
+  let rest = index;
+  for (let i = fields.length - 1; i >= 0; i--) {
+    const fieldCount = fieldSize(fields[i]);
+    offsets[i] = rest % fieldCount;
+    rest = Math.floor(rest / fieldCount);
+  }
+
+  return parseSpecifierTemplate(specifier).tokens.map(token => {
+    if (token.type === 'field') return fieldValueAt(fields[token.index], offsets[token.index]);
+    return token.type === 'literal' ? token.text : '';
+  }).join('');
+}
+
+// ============================================================================
+// PUBLIC API: NO-REPEAT ROLLS
+// ============================================================================
+
+/**
+ * The filled specifiers already searched, per pattern id + template
+ */
+export function collectUsedQueries(entries: SearchHistoryEntry[]): UsedQueries {
+  const used: UsedQueries = new Map();
+
+  for (const entry of entries) {
+    const { context } = entry;
+    if (context?.specifier === undefined) continue;
+
+    const key = queryKey(context.pattern, context.specifier);
+    const values = used.get(key) ?? new Set<string>();
+    values.add(entry.specifier);
+    used.set(key, values);
+  }
+
+  return used;
+}
+
+/**
+ * Candidates without the templates whose every value was searched
+ * A candidate loses its pattern when none of its specifiers are left.
+ */
+export function withoutExhausted(candidates: SelectionCandidate[], used: UsedQueries): SelectionCandidate[] {
+  return candidates.flatMap(candidate => {
+    const { pattern } = candidate;
+    const specifiers = candidate.specifiers.length > 0 ? candidate.specifiers : pattern.specifiers.slice(0, 1);
+    const remaining = specifiers.filter(spec => !querySpaceStatus(pattern, spec, used).exhausted);
+
+    if (remaining.length === specifiers.length) return [candidate];
+    return remaining.length > 0 ? [{ ...candidate, specifiers: remaining }] : [];
+  });
+}
+
+/**
+ * Every template in the pool whose space was searched completely
+ * @returns The templates' labels ("name + template"), by key
+ */
+export function exhaustedQueries(pool: SearchPattern[], used: UsedQueries): Map<string, string> {
+  const exhausted = new Map<string, string>();
+
+  for (const pattern of pool) {
+    for (const spec of pattern.specifiers) {
+      const key = queryKey(pattern, spec);
+      if (used.has(key) && querySpaceStatus(pattern, spec, used).exhausted) exhausted.set(key, pattern.name + spec);
+    }
+  }
+
+  return exhausted;
+}
+
+/**
+ * Fill a template with a value that isn't in `used`
+ * The first draw is the same as fillSpecifierTemplate()'s, so rolls without a
+ * repeat come out exactly as they would without no-repeat mode.
+ * @returns The value, or why there is none
+ */
+export function pickUnusedSpecifier(
+  pattern: SearchPattern,
+  specifier: string,
+  date: Date,
+  used: ReadonlySet<string>,
+  integerDistConfig: DistributionConfig | undefined,
+  random: RandomSource
+): UnusedSpecifierPick {
+  const fill = () => fillSpecifierTemplate(specifier, pattern, date, integerDistConfig, random);
+
+  const first = fill();
+  if (!used.has(first)) return { value: first };
+
+  for (let i = 0; i < MAX_REDRAWS; i++) {
+    const value = fill();
+    if (!used.has(value)) return { value };
+  }
+
+  // Draws keep landing on searched values: choose among the ones that are left
+  const values = enumerateSpecifierValues(pattern, specifier);
+  if (!values) return { value: null, reason: 'gave-up' };
+
+  const unused = values.filter(value => !used.has(value));
+  return unused.length > 0 ? { value: randomChoice(unused, random) } : { value: null, reason: 'exhausted' };
+}
+
+/**
+ * Whether no-repeat mode is on (off outside the browser)
+ */
+export function loadNoRepeat(): boolean {
+  if (typeof localStorage === 'undefined') return false;
+  return localStorage.getItem(NO_REPEAT_KEY) === 'true';
+}
+
+export function saveNoRepeat(enabled: boolean): void {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(NO_REPEAT_KEY, String(enabled));
+}
+
+/**
+ * Key of a pattern's template in UsedQueries and sweep cursors
+ */
+export function queryKey(pattern: SearchPattern, specifier: string): string {
+  return `${patternKey(pattern)}|||${specifier}`;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Whether a filled value is one of a template's values
+ * Reads the value back like fieldValues() writes it: literals as they are,
+ * then each field's characters, which must be within its range.
+ */
+function isSpecifierValue(pattern: SearchPattern, specifier: string, value: string): boolean {
+  if (!specifier) return value === '';
+
+  const fields = resolveSpecifierFields(specifier, pattern);
+  const order: ResolvedField[] = [];
+  const source = parseSpecifierTemplate(specifier).tokens.map(token => {
+    if (token.type === 'literal') return token.text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    if (token.type !== 'field') return '';
+    const field = fields[token.index];
+    order.push(field);
+    return `(${fieldPattern(field)})`;
+  }).join('');
+
+  const match = new RegExp(`^${source}$`).exec(value);
+  return match !== null && order.every((field, i) => fieldContains(field, match[i + 1]));
+}
+
+/**
+ * Regular expression source for one field's characters
+ */
+function fieldPattern(field: ResolvedField): string {
+  if (field.kind === 'letter') return `.{${field.width}}`;
+
+  const radix = field.kind === 'hex' ? 16 : 10;
+  const longest = Math.max(field.width, Math.max(0, field.max).toString(radix).length);
+  const digits = field.kind === 'hex' ? '[0-9A-F]' : '[0-9]';
+  return `${digits}{${field.width},${longest}}`;
+}
+
+/**
+ * Whether one field's characters are within its range
+ */
+function fieldContains(field: ResolvedField, text: string): boolean {
+  if (field.kind === 'letter') {
+    return [...text].every(char => char.charCodeAt(0) >= field.min && char.charCodeAt(0) <= field.max);
+  }
+
+  const value = parseInt(text, field.kind === 'hex' ? 16 : 10);
+  return value >= field.min && value <= field.max;
+}
+
+/**
+ * Number of values one field can hold (letters are drawn one per X)
+ */
+function fieldSize(field: ResolvedField): number {
+  const range = Math.max(0, field.max - field.min + 1);
+  return field.kind === 'letter' ? Math.pow(range, field.width) : range;
+}
+
+/**
+ * The value at one offset of a field (letter fields count like numbers in base 26, or their range)
+ */
+function fieldValueAt(field: ResolvedField, offset: number): string {
+  if (field.kind === 'letter') {
+    const base = field.max - field.min + 1;
+    let value = '';
+    for (let i = 0; i < field.width; i++) {
+      value = String.fromCharCode(field.min + (offset % base)) + value;
+      offset = Math.floor(offset / base);
+    }
+    return value;
+  }
+
+  const radix = field.kind === 'hex' ? 16 : 10;
+  return (field.min + offset).toString(radix).toUpperCase().padStart(field.width, '0');
+}
+
+/**
+ * Every value of one field, formatted like generateFieldValue() in search-settings.ts
+ */
+function fieldValues(field: ResolvedField): string[] {
+  const range = Array.from({ length: Math.max(0, field.max - field.min + 1) }, (_, i) => field.min + i);
+
+  if (field.kind === 'letter') {
+    let values = [''];
+    for (let i = 0; i < field.width; i++) {
+      values = values.flatMap(value => range.map(code => value + String.fromCharCode(code)));
+    }
+    return values;
+  }
+
+  const radix = field.kind === 'hex' ? 16 : 10;
+  return range.map(value => value.toString(radix).toUpperCase().padStart(field.width, '0'));
+}
@@ -3,15 +3,21 @@
 // ============================================================================
 // This module provides functions for generating random numbers from various
 // probability distributions for YouTube video search randomization.
-
-export type DistributionType = 'uniform' | 'bell' | 'z-curve' | 't-curve';
-
-export interface DistributionConfig {
-    type: DistributionType;
-    center: number;      // 0-1 (percentage of range)
-    spread: number;      // 0-1 (relative spread)
-    degreesOfFreedom?: number;  // For t-curve (1-30)
-}
+// Every sampler takes an optional RandomSource so rolls can be seeded.
+// The constrained generators draw from distributions.ts, the same curves
+// the graphs draw (distributionPDF.ts).
+
+import { defaultRandom, type RandomSource } from './rng.js';
+import { createDistribution, type DistributionConfig } from './distributions.js';
+
+// Distribution types and shapes live in distributions.ts; re-exported for existing imports
+export type { DistributionType, DistributionConfig, MixtureComponent } from './distributions.js';
+export {
+    DEFAULT_BETA_ALPHA,
+    DEFAULT_BETA_BETA,
+    DEFAULT_MIXTURE_COMPONENTS,
+    mixtureComponents
+} from './distributions.js';
 
 // ============================================================================
 // CORE DISTRIBUTION FUNCTIONS
@@ -21,23 +27,25 @@ export interface DistributionConfig {
  * Generates a random number from a uniform distribution
  * @param min - Minimum value (inclusive)
  * @param max - Maximum value (inclusive)
+ * @param random - Source of randomness (default: Math.random)
  * @returns Random number uniformly distributed between min and max
  */
-export function uniformDistribution(min: number, max: number): number {
-    return Math.floor(Math.random() * (max - min + 1)) + min;
+export function uniformDistribution(min: number, max: number, random: RandomSource = defaultRandom): number {
+    return Math.floor(random() * (max - min + 1)) + min;
 }
 
 /**
  * Generates a random number from a normal (bell curve) distribution using Box-Muller transform
  * @param mean - Center of the distribution
  * @param stdDev - Standard deviation (spread)
+ * @param random - Source of randomness (default: Math.random)
  * @returns Random number from normal distribution
  */
-export function normalDistribution(mean: number, stdDev: number): number {
+export function normalDistribution(mean: number, stdDev: number, random: RandomSource = defaultRandom): number {
     // Box-Muller transform for generating normal distribution
     let u1 = 0, u2 = 0;
-    while (u1 === 0) u1 = Math.random(); // Converting [0,1) to (0,1)
-    while (u2 === 0) u2 = Math.random();
+    while (u1 === 0) u1 = random(); // Converting [0,1) to (0,1)
+    while (u2 === 0) u2 = random();
 
     const z0 = Math.sqrt(-2.0 * Math.log(u1)) * Math.cos(2.0 * Math.PI * u2);
     return z0 * stdDev + mean;
@@ -47,11 +55,12 @@ export function normalDistribution(mean: number, stdDev: number): number {
  * Generates a random number from a standard normal (Z-curve) distribution
  * @param mean - Center of the distribution
  * @param stdDev - Standard deviation (spread)
+ * @param random - Source of randomness (default: Math.random)
  * @returns Random number from standard normal distribution
  */
-export function zCurveDistribution(mean: number, stdDev: number): number {
+export function zCurveDistribution(mean: number, stdDev: number, random: RandomSource = defaultRandom): number {
     // Z-curve is just a standard normal distribution
-    return normalDistribution(mean, stdDev);
+    return normalDistribution(mean, stdDev, random);
 }
 
 /**
@@ -59,16 +68,17 @@ export function zCurveDistribution(mean: number, stdDev: number): number {
  * @param mean - Center of the distribution
  * @param scale - Scale parameter (similar to standard deviation)
  * @param degreesOfFreedom - Degrees of freedom (lower = heavier tails, typically 1-30)
+ * @param random - Source of randomness (default: Math.random)
  * @returns Random number from t-distribution
  */
-export function tDistribution(mean: number, scale: number, degreesOfFreedom: number = 5): number {
+export function tDistribution(mean: number, scale: number, degreesOfFreedom: number = 5, random: RandomSource = defaultRandom): number {
     // Generate t-distribution using normal and chi-squared approximation
-    const z = normalDistribution(0, 1);
+    const z = normalDistribution(0, 1, random);
 
     // Approximate chi-squared with degrees of freedom
     let chiSquared = 0;
     for (let i = 0; i < degreesOfFreedom; i++) {
-        const n = normalDistribution(0, 1);
+        const n = normalDistribution(0, 1, random);
         chiSquared += n * n;
     }
 
@@ -82,58 +92,23 @@ export function tDistribution(mean: number, scale: number, degreesOfFreedom: num
 
 /**
  * Generates a random integer constrained to a range using specified distribution
+ * The range is split into max - min + 1 equally wide bins, one per integer, so
+ * each integer gets exactly the share of the curve above its bin.
  * @param min - Minimum value (inclusive)
  * @param max - Maximum value (inclusive)
  * @param config - Distribution configuration
- * @param maxAttempts - Maximum attempts to find value within range (default: 100)
+ * @param random - Source of randomness (default: Math.random)
  * @returns Random integer within specified range
  */
 export function generateConstrainedInteger(
     min: number,
     max: number,
     config: DistributionConfig,
-    maxAttempts: number = 100
+    random: RandomSource = defaultRandom
 ): number {
-    const range = max - min;
-
-    if (config.type === 'uniform') {
-        // UNIFORM: Apply center and spread to create bounded rectangular distribution
-        const halfSpread = config.spread / 2;
-        const lowerBound = Math.max(0, config.center - halfSpread);
-        const upperBound = Math.min(1, config.center + halfSpread);
-
-        // Map bounds to this specific range
-        const actualMin = min + Math.round(lowerBound * range);
-        const actualMax = min + Math.round(upperBound * range);
-
-        return uniformDistribution(actualMin, actualMax);
-    }
-
-    const centerValue = min + (range * config.center);
-    const stdDev = range * Math.max(config.spread, 0.05);
-
-    let attempts = 0;
-    let value: number;
-
-    do {
-        switch (config.type) {
-            case 'bell':
-                value = Math.round(normalDistribution(centerValue, stdDev));
-                break;
-            case 'z-curve':
-                value = Math.round(zCurveDistribution(centerValue, stdDev));
-                break;
-            case 't-curve':
-                value = Math.round(tDistribution(centerValue, stdDev, config.degreesOfFreedom || 5));
-                break;
-            default:
-                value = uniformDistribution(min, max);
-        }
-        attempts++;
-    } while ((value < min || value > max) && attempts < maxAttempts);
-
-    // Clamp to range if we exceeded max attempts
-    return Math.max(min, Math.min(max, value));
+    const count = max - min + 1;
+    const position = createDistribution(config).sample(random);
+    return min + Math.min(count - 1, Math.floor(position * count));
 }
 
 /**
@@ -141,60 +116,18 @@ export function generateConstrainedInteger(
  * @param startDate - Earliest date (inclusive)
  * @param endDate - Latest date (inclusive)
  * @param config - Distribution configuration
- * @param maxAttempts - Maximum attempts to find value within range (default: 100)
+ * @param random - Source of randomness (default: Math.random)
  * @returns Random date within specified range
  */
 export function generateConstrainedDate(
     startDate: Date,
     endDate: Date,
     config: DistributionConfig,
-    maxAttempts: number = 100
+    random: RandomSource = defaultRandom
 ): Date {
     const startTime = startDate.getTime();
-    const endTime = endDate.getTime();
-    const range = endTime - startTime;
-
-    if (config.type === 'uniform') {
-        // UNIFORM: Apply center and spread to create bounded rectangular distribution
-        const halfSpread = config.spread / 2;
-        const lowerBound = Math.max(0, config.center - halfSpread);
-        const upperBound = Math.min(1, config.center + halfSpread);
-
-        // Map bounds to this specific date range
-        const actualStartTime = startTime + (lowerBound * range);
-        const actualEndTime = startTime + (upperBound * range);
-        const actualRange = actualEndTime - actualStartTime;
-
-        const randomTime = actualStartTime + Math.random() * actualRange;
-        return new Date(randomTime);
-    }
-
-    const centerTime = startTime + (range * config.center);
-    const stdDev = range * Math.max(config.spread, 0.05);
-
-    let attempts = 0;
-    let time: number;
-
-    do {
-        switch (config.type) {
-            case 'bell':
-                time = normalDistribution(centerTime, stdDev);
-                break;
-            case 'z-curve':
-                time = zCurveDistribution(centerTime, stdDev);
-                break;
-            case 't-curve':
-                time = tDistribution(centerTime, stdDev, config.degreesOfFreedom || 5);
-                break;
-            default:
-                time = startTime + Math.random() * range;
-        }
-        attempts++;
-    } while ((time < startTime || time > endTime) && attempts < maxAttempts);
-
-    // Clamp to range if we exceeded max attempts
-    const clampedTime = Math.max(startTime, Math.min(endTime, time));
-    return new Date(clampedTime);
+    const range = endDate.getTime() - startTime;
+    return new Date(startTime + createDistribution(config).sample(random) * range);
 }
 
 // ============================================================================
@@ -203,33 +136,14 @@ export function generateConstrainedDate(
 
 /**
  * Validates that a distribution configuration meets the 80% constraint
- * (80% of generated values should fall within the specified range)
+ * (80% of the curve should fall within the range, so cutting it off at the
+ * edges doesn't change its shape much). The share is calculated exactly on
+ * positions in [0, 1], so it is the same for every range.
  * @param config - Distribution configuration to validate
- * @param min - Minimum value of range
- * @param max - Maximum value of range
- * @param sampleSize - Number of samples to test (default: 1000)
  * @returns True if configuration meets 80% constraint, false otherwise
  */
-export function validateDistribution(
-    config: DistributionConfig,
-    min: number,
-    max: number,
-    sampleSize: number = 1000
-): { valid: boolean; successRate: number } {
-    if (config.type === 'uniform') {
-        return { valid: true, successRate: 1.0 };
-    }
-
-    let successCount = 0;
-
-    for (let i = 0; i < sampleSize; i++) {
-        const value = generateConstrainedInteger(min, max, config, 1); // Only 1 attempt for true test
-        if (value >= min && value <= max) {
-            successCount++;
-        }
-    }
-
-    const successRate = successCount / sampleSize;
+export function validateDistribution(config: DistributionConfig): { valid: boolean; successRate: number } {
+    const successRate = createDistribution(config).massInRange;
     return {
         valid: successRate >= 0.8,
         successRate: successRate
@@ -247,6 +161,7 @@ export function validateDistribution(
  * @param max - Maximum value
  * @param sampleSize - Number of samples to generate
  * @param bucketCount - Number of histogram buckets
+ * @param random - Source of randomness (default: Math.random)
  * @returns Object with histogram data and statistics
  */
 export function generateHistogram(
@@ -254,7 +169,8 @@ export function generateHistogram(
     min: number,
     max: number,
     sampleSize: number = 1000,
-    bucketCount: number = 10
+    bucketCount: number = 10,
+    random: RandomSource = defaultRandom
 ): {
     buckets: number[];
     labels: string[];
@@ -281,7 +197,7 @@ export function generateHistogram(
     let outOfRangeCount = 0;
 
     for (let i = 0; i < sampleSize; i++) {
-        const value = generateConstrainedInteger(min, max, config, 1);
+        const value = generateConstrainedInteger(min, max, config, random);
         samples.push(value);
 
         if (value >= min && value <= max) {
@@ -358,7 +274,7 @@ export function debugDistribution(
     console.log('Out of range:', histogram.outOfRangeCount, `(${(histogram.outOfRangeCount / 10).toFixed(1)}%)`);
 
     // Validate 80% constraint
-    const validation = validateDistribution(config, min, max, 1000);
+    const validation = validateDistribution(config);
     console.log('\n80% Constraint:', validation.valid ? ' PASS' : ' FAIL');
     console.log('Success rate:', (validation.successRate * 100).toFixed(1) + '%');
     console.log('=========================\n');
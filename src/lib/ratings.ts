@@ -0,0 +1,200 @@
+/**
+ * Ratings - How searches turned out, and adaptive weighting from those outcomes
+ *
+ * RESPONSIBILITIES:
+ * A history entry can be rated after the search was looked at:
+ *  - gem   Found something worth watching
+ *  - meh   Results, but nothing interesting
+ *  - dead  No results, or only spam
+ * Ratings are added up per pattern and per specifier template for the stats
+ * table in the History tab. Patterns are told apart by their pool id (see
+ * patternKey() in term-packs.ts), so patterns that share a name don't share
+ * ratings or weights.
+ *
+ * ADAPTIVE WEIGHTING (opt-in, kept in localStorage):
+ * Every pattern and specifier is a bandit arm. Its score is the average
+ * rating (gem = 1, meh = 0.5, dead = 0) with one imaginary gem and one
+ * imaginary dead end mixed in, so a single rating can't decide much:
+ *   multiplier = (score / 0.5) ^ ADAPTIVE_STRENGTH, at least MIN_ADAPTIVE_MULTIPLIER
+ * Unrated arms keep a multiplier of 1 and nothing drops below the minimum,
+ * so rolls keep exploring. The multiplier scales pattern.weight and
+ * pattern.specifierWeights before selection.ts picks (see applyAdaptiveWeights()).
+ */
+
+import type { SearchPattern, PatternSource } from './method-logic.js';
+import { DEFAULT_WEIGHT, type SelectionCandidate } from './selection.js';
+import { patternKey } from './term-packs.js';
+import type { SearchHistoryEntry } from './history-repository.js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type SearchRating = 'gem' | 'meh' | 'dead';
+
+/**
+ * Ratings of one pattern or specifier
+ */
+export interface RatingStats {
+  gems: number;
+  meh: number;
+  dead: number;
+  rated: number;          // gems + meh + dead
+  hitRate: number;        // gems / rated (0 when unrated)
+  multiplier: number;     // Adaptive weight multiplier
+}
+
+export interface SpecifierRatingStats extends RatingStats {
+  specifier: string;      // Specifier template
+}
+
+export interface PatternRatingStats extends RatingStats {
+  key: string;            // patternKey() of the pattern ("name:<name>" for entries recorded without it)
+  name: string;
+  source?: PatternSource; // Where the rated pattern came from (unknown for unrecorded entries)
+  specifiers: SpecifierRatingStats[];   // Only entries that recorded their template (see roll.ts)
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const ADAPTIVE_KEY = 'adaptiveWeighting';
+
+export const SEARCH_RATINGS: SearchRating[] = ['gem', 'meh', 'dead'];
+
+export const SEARCH_RATING_LABELS: Record<SearchRating, string> = {
+  gem: 'Found gems',
+  meh: 'Meh',
+  dead: 'Dead end'
+};
+
+export const SEARCH_RATING_ICONS: Record<SearchRating, string> = {
+  gem: '💎',
+  meh: '😐',
+  dead: '🚫'
+};
+
+const RATING_SCORES: Record<SearchRating, number> = { gem: 1, meh: 0.5, dead: 0 };
+
+export const ADAPTIVE_STRENGTH = 2;
+export const MIN_ADAPTIVE_MULTIPLIER = 0.1;
+
+// ============================================================================
+// PUBLIC API: STATS
+// ============================================================================
+
+/**
+ * Add up the rated entries per pattern and specifier template
+ * @returns One row per rated pattern, most rated first
+ */
+export function aggregateRatings(entries: SearchHistoryEntry[]): PatternRatingStats[] {
+  const patterns = new Map<string, {
+    name: string;
+    source?: PatternSource;
+    counts: Record<SearchRating, number>;
+    specifiers: Map<string, Record<SearchRating, number>>;
+  }>();
+
+  for (const entry of entries) {
+    if (!entry.rating) continue;
+
+    const source = entry.context?.pattern.source;
+    const key = entry.context ? patternKey(entry.context.pattern) : `name:${entry.name}`;
+    let pattern = patterns.get(key);
+    if (!pattern) {
+      pattern = { name: entry.name, source, counts: emptyCounts(), specifiers: new Map() };
+      patterns.set(key, pattern);
+    }
+    pattern.counts[entry.rating]++;
+
+    const template = entry.context?.specifier;
+    if (template === undefined) continue;
+    const counts = pattern.specifiers.get(template) ?? emptyCounts();
+    counts[entry.rating]++;
+    pattern.specifiers.set(template, counts);
+  }
+
+  return [...patterns.entries()]
+    .map(([key, { name, source, counts, specifiers }]) => ({
+      key,
+      name,
+      ...(source ? { source } : {}),
+      ...ratingStats(counts),
+      specifiers: [...specifiers.entries()]
+        .map(([specifier, specCounts]) => ({ specifier, ...ratingStats(specCounts) }))
+        .sort((a, b) => b.rated - a.rated)
+    }))
+    .sort((a, b) => b.rated - a.rated || a.name.localeCompare(b.name));
+}
+
+/**
+ * Weight multiplier for an arm with these ratings (1 when unrated)
+ */
+export function adaptiveMultiplier(counts: Pick<RatingStats, 'gems' | 'meh' | 'dead'>): number {
+  const rated = counts.gems + counts.meh + counts.dead;
+  const score = (counts.gems * RATING_SCORES.gem + counts.meh * RATING_SCORES.meh + 1) / (rated + 2);
+  return Math.max(MIN_ADAPTIVE_MULTIPLIER, Math.pow(score / 0.5, ADAPTIVE_STRENGTH));
+}
+
+// ============================================================================
+// PUBLIC API: ADAPTIVE WEIGHTING
+// ============================================================================
+
+/**
+ * Candidates whose pattern and specifier weights are scaled by their ratings
+ * Unrated patterns are passed through unchanged.
+ */
+export function applyAdaptiveWeights(candidates: SelectionCandidate[], stats: PatternRatingStats[]): SelectionCandidate[] {
+  const byKey = new Map(stats.map(row => [row.key, row]));
+
+  return candidates.map(candidate => {
+    const row = byKey.get(patternKey(candidate.pattern));
+    if (!row) return candidate;
+
+    return { ...candidate, pattern: scalePattern(candidate.pattern, row) };
+  });
+}
+
+/**
+ * Whether adaptive weighting is on (off outside the browser)
+ */
+export function loadAdaptiveWeighting(): boolean {
+  if (typeof localStorage === 'undefined') return false;
+  return localStorage.getItem(ADAPTIVE_KEY) === 'true';
+}
+
+export function saveAdaptiveWeighting(enabled: boolean): void {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(ADAPTIVE_KEY, String(enabled));
+}
+
+export function isSearchRating(value: unknown): value is SearchRating {
+  return typeof value === 'string' && (SEARCH_RATINGS as string[]).includes(value);
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function emptyCounts(): Record<SearchRating, number> {
+  return { gem: 0, meh: 0, dead: 0 };
+}
+
+function ratingStats(counts: Record<SearchRating, number>): RatingStats {
+  const stats = { gems: counts.gem, meh: counts.meh, dead: counts.dead };
+  const rated = counts.gem + counts.meh + counts.dead;
+  return { ...stats, rated, hitRate: rated > 0 ? counts.gem / rated : 0, multiplier: adaptiveMultiplier(stats) };
+}
+
+/**
+ * A copy of the pattern with its weights multiplied
+ */
+function scalePattern(pattern: SearchPattern, row: PatternRatingStats): SearchPattern {
+  const specifierWeights = { ...pattern.specifierWeights };
+  for (const spec of row.specifiers) {
+    specifierWeights[spec.specifier] = (pattern.specifierWeights?.[spec.specifier] ?? DEFAULT_WEIGHT) * spec.multiplier;
+  }
+
+  return { ...pattern, weight: (pattern.weight ?? DEFAULT_WEIGHT) * row.multiplier, specifierWeights };
+}
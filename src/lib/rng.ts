@@ -0,0 +1,125 @@
+// ============================================================================
+// RNG MODULE - Seedable Pseudo-Random Number Generation
+// ============================================================================
+// Every random choice made during a roll (pattern, specifier, date, integer
+// fields) goes through a RandomSource so that a roll can be reproduced from
+// its seed. Math.random is still the default anywhere a source isn't passed.
+
+/**
+ * A function returning a uniformly distributed float in [0, 1),
+ * exactly like Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * The unseeded fallback used when no RandomSource is supplied
+ */
+export const defaultRandom: RandomSource = () => Math.random();
+
+// ============================================================================
+// SEEDING
+// ============================================================================
+
+/**
+ * Hashes a seed string into a 32-bit integer (xmur3 string hash)
+ * @param seed - Any string; numbers are stringified by the caller
+ * @returns Unsigned 32-bit integer state
+ */
+export function hashSeed(seed: string): number {
+    let h = 1779033703 ^ seed.length;
+    for (let i = 0; i < seed.length; i++) {
+        h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+        h = (h << 13) | (h >>> 19);
+    }
+    h = Math.imul(h ^ (h >>> 16), 2246822507);
+    h = Math.imul(h ^ (h >>> 13), 3266489909);
+    return (h ^ (h >>> 16)) >>> 0;
+}
+
+/**
+ * Creates a deterministic RandomSource from a seed (mulberry32)
+ * The same seed always yields the same sequence of numbers.
+ * @param seed - Seed string or number (e.g., "k3x9q2" or 42)
+ * @returns RandomSource producing floats in [0, 1)
+ */
+export function createSeededRandom(seed: string | number): RandomSource {
+    let state = hashSeed(String(seed));
+
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Generates a fresh, short, human-typeable seed (8 base-36 characters)
+ * Uses crypto when available so consecutive seeds don't correlate.
+ * @returns New seed string
+ */
+export function generateSeed(): string {
+    const alphabet = '0123456789abcdefghijklmnopqrstuvwxyz';
+    const bytes = new Uint8Array(8);
+
+    if (typeof crypto !== 'undefined' && typeof crypto.getRandomValues === 'function') {
+        crypto.getRandomValues(bytes);
+    } else {
+        for (let i = 0; i < bytes.length; i++) {
+            bytes[i] = Math.floor(Math.random() * 256);
+        }
+    }
+
+    return Array.from(bytes, byte => alphabet[byte % alphabet.length]).join('');
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Generates a random integer between min and max (inclusive)
+ * @param min - Minimum value (inclusive)
+ * @param max - Maximum value (inclusive)
+ * @param random - Source of randomness (default: Math.random)
+ * @returns Random integer in [min, max]
+ */
+export function randomInt(min: number, max: number, random: RandomSource = defaultRandom): number {
+    return Math.floor(random() * (max - min + 1)) + min;
+}
+
+/**
+ * Picks a random element from a non-empty array
+ * @param items - Array to pick from
+ * @param random - Source of randomness (default: Math.random)
+ * @returns One element of items
+ */
+export function randomChoice<T>(items: readonly T[], random: RandomSource = defaultRandom): T {
+    return items[Math.floor(random() * items.length)];
+}
+
+/**
+ * Picks a random element with probability proportional to its weight
+ * Zero, negative and non-finite weights are never picked.
+ * @param items - Array to pick from
+ * @param weights - One weight per item
+ * @param random - Source of randomness (default: Math.random)
+ * @returns One element of items, or null when no item has a positive weight
+ */
+export function weightedChoice<T>(items: readonly T[], weights: readonly number[], random: RandomSource = defaultRandom): T | null {
+    const usable = weights.map(weight => (Number.isFinite(weight) && weight > 0 ? weight : 0));
+    const total = usable.reduce((sum, weight) => sum + weight, 0);
+    if (total === 0) return null;
+
+    let target = random() * total;
+    for (let i = 0; i < items.length; i++) {
+        if (usable[i] === 0) continue;
+        target -= usable[i];
+        if (target < 0) return items[i];
+    }
+
+    // Floating point rounding: fall back to the last usable item
+    const last = usable.map(weight => weight > 0).lastIndexOf(true);
+    return items[last];
+}
@@ -0,0 +1,374 @@
+/**
+ * Roll - One complete "Find Video" roll, and dry runs of many
+ *
+ * RESPONSIBILITIES:
+ * A roll makes every random choice in a fixed order from ONE seeded source,
+ * so the same seed and settings always give the same search:
+ *  1. Pattern + specifier (selection.ts: weights and strategy)
+ *  2. Search platform (search-platforms.ts)
+ *  3. Date inside the pattern's window (date-window.ts)
+ *  4. Filled specifier and query text (search-settings.ts)
+ *
+ * The date window ends on a day ("today" at midnight, see startOfDay() in
+ * date-window.ts), which is part of the seed a roll is reproduced with:
+ * formatRollSeed() writes "<seed>@YYYY-MM-DD" and parseRollSeed() reads it
+ * back, so a pinned seed makes the same search on any later day.
+ *
+ * rollSearch() has no side effects: nothing is opened or added to history.
+ * previewRolls() uses it to generate example searches for a pattern or for
+ * the current filters, each with the seed that reproduces it.
+ *
+ * REPLAYS:
+ * createRollRecord() keeps everything a roll used (pattern, specifier
+ * template, seed, date window, distributions, platform) with its history
+ * entry. replayRoll() rebuilds that exact search later, even after the term
+ * or the settings changed; similarRollSettings() rolls the same pattern again
+ * with the recorded settings and a new seed.
+ *
+ * NO-REPEAT AND SWEEPS:
+ * With usedQueries set, the specifier is filled with a value that isn't in
+ * the history yet (see query-space.ts). A pattern + specifier with a sweep
+ * in `sweeps` takes the sweep's next value instead (see sweep.ts). Either
+ * way the record keeps the value, since a replay sees a different history
+ * and cursor.
+ */
+
+import type { SearchPattern } from './method-logic.js';
+import { patternKey } from './term-packs.js';
+import type { DistributionConfig } from './randomness.js';
+import { createSeededRandom, generateSeed, type RandomSource } from './rng.js';
+import { DEFAULT_STRATEGY, pickWeighted, type GenreWeights, type SelectionCandidate, type SelectionStrategy } from './selection.js';
+import { DEFAULT_PLATFORM_ID, resolvePlatform, type PlatformChoice, type SearchPlatform, type SearchPlatformId } from './search-platforms.js';
+import {
+  resolveDateWindow, sampleDateInWindow, startOfDay, parseCalendarDate, formatCalendarDate,
+  type AgeFilter, type DateOverride, type DateWindow
+} from './date-window.js';
+import { buildSearchQuery, withQueryText, type SearchQuery, type SearchQueryOptions } from './search-settings.js';
+import { pickUnusedSpecifier, queryKey, type UsedQueries } from './query-space.js';
+import { advanceSweep, nextSweepStep, type SweepCursor, type SweepCursors } from './sweep.js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Everything a roll depends on besides the random source
+ */
+export interface RollSettings {
+  candidates: SelectionCandidate[];       // Active patterns and their selected specifiers
+  genreWeights?: GenreWeights;
+  strategy?: SelectionStrategy;
+  previousGenre?: string | null;          // round-robin: genre of the last roll
+  platformChoice?: PlatformChoice;        // Default: YouTube
+  age?: AgeFilter;                        // "Show me ... videos"
+  override?: DateOverride | null;         // Custom date from the Filters tab
+  today?: Date;                           // Day the date window ends on (default: today, see startOfDay())
+  dateDistConfig?: DistributionConfig;    // Date distribution (Randomness tab)
+  query?: RollQueryOptions;
+  dateWindow?: DateWindow;                // Use this window instead of resolving one (replays)
+  usedQueries?: UsedQueries;              // No-repeat mode: values already searched
+  sweeps?: SweepCursors;                  // Sweeps in progress (read, never moved)
+}
+
+/**
+ * Integer distribution, filters and query words
+ */
+export type RollQueryOptions = Omit<SearchQueryOptions, 'random' | 'platform' | 'filledSpecifier' | 'dateRangeEnd'>;
+
+/**
+ * The result of one roll
+ */
+export interface RolledSearch {
+  pattern: SearchPattern;
+  specifier: string;                      // The specifier template that was picked
+  platform: SearchPlatform;
+  dateWindow: DateWindow;
+  today: Date;                            // Day the date window ended on
+  date: Date;                             // Date the query was built with
+  query: SearchQuery;
+  conflicts: string[];                    // Limits the roll had to drop (date window, platform, date filter)
+  pickDraws: number;                      // Random draws used to pick the pattern and specifier
+  sweep?: SweepCursor;                    // The pattern's sweep at the step the roll used
+}
+
+/**
+ * Everything needed to replay a roll exactly, kept with its history entry
+ * Dates are ISO strings so records survive JSON (the localStorage history).
+ */
+export interface RollRecord {
+  seed: string;
+  pattern: SearchPattern;                 // The pattern as it was rolled (its source says which term it was)
+  specifier: string;                      // Specifier template that was picked
+  pickDraws: number;                      // A replay skips these draws instead of picking again
+  strategy: SelectionStrategy;
+  platformChoice: PlatformChoice;         // The site setting ('random' is resolved again from the seed)
+  platform: SearchPlatformId;             // The site that was searched
+  age: AgeFilter;
+  override: { type: DateOverride['type']; date: string } | null;
+  dateWindow: { start: string; end: string; anchor?: string };
+  today?: string;                         // Day the window ended on (missing before seeds carried it)
+  date: string;                           // Date the query was built with
+  dateDistConfig?: DistributionConfig;
+  query: RollQueryOptions;                // Includes the integer distribution
+  queryText: string;                      // Query text that was opened (edited in the review, or the roll's)
+  filledSpecifier?: string;               // Set when no-repeat mode or a sweep chose the value
+  sweep?: SweepCursor;                    // The pattern's sweep at the step the roll used
+}
+
+/**
+ * A roll seed as typed or shown: the seed, and the day its window ended on if pinned
+ */
+export interface RollSeed {
+  seed: string;
+  today?: Date;
+}
+
+/**
+ * One example from a dry run
+ */
+export interface PreviewRoll {
+  seed: string;                           // The seed that reproduces the example, with its day (see formatRollSeed())
+  roll: RolledSearch;
+  reproducible: boolean;                  // Whether the next roll with this seed makes this search
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Make one roll
+ * @param settings - Candidates, weights, platform, date and query settings
+ * @param random - Source of every random choice
+ * @returns The roll, or null when no candidate can be picked
+ */
+export function rollSearch(settings: RollSettings, random: RandomSource): RolledSearch | null {
+  let pickDraws = 0;
+  const counted: RandomSource = () => {
+    pickDraws++;
+    return random();
+  };
+
+  const picked = pickWeighted(settings.candidates, settings.genreWeights ?? {}, counted, {
+    strategy: settings.strategy,
+    previousGenre: settings.previousGenre
+  });
+  if (!picked) return null;
+
+  return completeRoll(picked.pattern, picked.specifier, settings, random, pickDraws);
+}
+
+/**
+ * Dry run: make several rolls without opening or recording anything
+ * Consecutive examples continue a round-robin and sweeps like real rolls would,
+ * so a later example only comes out again from its seed when neither is in play.
+ * @param settings - As for rollSearch()
+ * @param count - Number of examples
+ * @param seed - Base seed; example i uses "<seed>-<i + 1>" (default: a fresh seed)
+ * @returns Up to `count` examples ([] when nothing can be picked)
+ */
+export function previewRolls(settings: RollSettings, count: number, seed: string = generateSeed()): PreviewRoll[] {
+  const examples: PreviewRoll[] = [];
+  const today = settings.today ?? startOfDay(new Date());
+  let previousGenre = settings.previousGenre ?? null;
+  let sweeps = settings.sweeps;
+
+  for (let i = 0; i < count; i++) {
+    const exampleSeed = `${seed}-${i + 1}`;
+    const roll = rollSearch({ ...settings, today, previousGenre, sweeps }, createSeededRandom(exampleSeed));
+    if (!roll) break;
+
+    // Later examples saw a round-robin or sweeps moved on by the earlier ones
+    const reproducible = i === 0 || (settings.strategy !== 'round-robin' && sweeps === settings.sweeps);
+    examples.push({ seed: formatRollSeed(exampleSeed, today), roll, reproducible });
+    previousGenre = roll.pattern.genre;
+    if (sweeps && roll.sweep) {
+      sweeps = advanceSweep(sweeps, queryKey(roll.pattern, roll.specifier), roll.sweep);
+    }
+  }
+
+  return examples;
+}
+
+/**
+ * Record a roll for its history entry
+ * @param seed - The seed the roll was made with
+ * @param roll - The roll
+ * @param settings - The settings the roll was made with
+ */
+export function createRollRecord(seed: string, roll: RolledSearch, settings: RollSettings): RollRecord {
+  const { start, end, anchor } = roll.dateWindow;
+
+  return {
+    seed,
+    pattern: roll.pattern,
+    specifier: roll.specifier,
+    pickDraws: roll.pickDraws,
+    strategy: settings.strategy ?? DEFAULT_STRATEGY,
+    platformChoice: settings.platformChoice ?? DEFAULT_PLATFORM_ID,
+    platform: roll.platform.id,
+    age: settings.age ?? 'any',
+    override: settings.override ? { type: settings.override.type, date: settings.override.date.toISOString() } : null,
+    dateWindow: { start: start.toISOString(), end: end.toISOString(), ...(anchor ? { anchor: anchor.toISOString() } : {}) },
+    today: roll.today.toISOString(),
+    date: roll.date.toISOString(),
+    dateDistConfig: settings.dateDistConfig,
+    query: settings.query ?? {},
+    queryText: roll.query.queryText,
+    ...(settings.usedQueries || roll.sweep ? { filledSpecifier: roll.query.filledSpecifier } : {}),
+    ...(roll.sweep ? { sweep: roll.sweep } : {})
+  };
+}
+
+/**
+ * Make the recorded roll again: same pattern, date window and seed, so the same search
+ * The recorded pattern is used even if the term was edited or deleted since.
+ */
+export function replayRoll(record: RollRecord): RolledSearch {
+  const random = createSeededRandom(record.seed);
+  for (let i = 0; i < record.pickDraws; i++) random();
+
+  const dateWindow: DateWindow = {
+    start: new Date(record.dateWindow.start),
+    end: new Date(record.dateWindow.end),
+    anchor: record.dateWindow.anchor ? new Date(record.dateWindow.anchor) : undefined,
+    conflicts: []
+  };
+  const roll = completeRoll(
+    record.pattern,
+    record.specifier,
+    { ...recordSettings(record), dateWindow, today: record.today ? new Date(record.today) : undefined },
+    random,
+    record.pickDraws,
+    record.filledSpecifier
+  );
+
+  return roll.query.queryText === record.queryText
+    ? roll
+    : { ...roll, query: withQueryText(roll.query, record.queryText) };
+}
+
+/**
+ * Settings to roll the recorded pattern again with its recorded settings
+ * @param record - The recorded roll
+ * @param current - The pattern as it is now (see findRecordedPattern(); null: as it was recorded)
+ */
+export function similarRollSettings(record: RollRecord, current: SearchPattern | null = null): RollSettings {
+  const pattern = current ?? record.pattern;
+  const specifier = pattern.specifiers.includes(record.specifier) ? record.specifier : undefined;
+  return { ...recordSettings(record), candidates: patternCandidates(pattern, specifier) };
+}
+
+/**
+ * The recorded pattern as it is in the term pool now (same pattern id, see patternKey())
+ * Patterns that only share the name don't count, so a roll never moves to another pattern.
+ * @returns The pattern, or null when it was changed, deleted or its pack is off
+ */
+export function findRecordedPattern(record: RollRecord, pool: SearchPattern[]): SearchPattern | null {
+  const key = patternKey(record.pattern);
+  return pool.find(pattern => patternKey(pattern) === key) ?? null;
+}
+
+/**
+ * Read a roll seed as typed: "<seed>" or "<seed>@YYYY-MM-DD" (pinned to that day)
+ * @returns The seed, or null when the text is empty
+ */
+export function parseRollSeed(text: string): RollSeed | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  const pinned = /^(.+)@(\d{4}-\d{2}-\d{2})$/.exec(trimmed);
+  const today = pinned ? parseCalendarDate(pinned[2]) : null;
+  return pinned && today ? { seed: pinned[1], today } : { seed: trimmed };
+}
+
+/**
+ * Write a roll seed with the day its window ended on, for parseRollSeed()
+ */
+export function formatRollSeed(seed: string, today?: Date): string {
+  return today ? `${seed}@${formatCalendarDate(today)}` : seed;
+}
+
+/**
+ * Candidates for a dry run of one pattern (every specifier, or just one)
+ */
+export function patternCandidates(pattern: SearchPattern, specifier?: string): SelectionCandidate[] {
+  return [{ pattern, specifiers: specifier === undefined ? pattern.specifiers : [specifier] }];
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Everything after the pick: platform, date and query
+ */
+function completeRoll(
+  pattern: SearchPattern,
+  specifier: string,
+  settings: Omit<RollSettings, 'candidates'>,
+  random: RandomSource,
+  pickDraws: number,
+  filledSpecifier?: string
+): RolledSearch {
+  const { platform, conflict: platformConflict } = resolvePlatform(pattern, settings.platformChoice, random);
+
+  // The override date if there is one (moved into the window if needed), otherwise a random date
+  const today = settings.today ?? startOfDay(new Date());
+  const dateWindow = settings.dateWindow ?? resolveDateWindow(pattern, { age: settings.age, override: settings.override, today });
+  const date = dateWindow.anchor ?? sampleDateInWindow(dateWindow, settings.dateDistConfig, random);
+
+  const conflicts = dateWindow.conflicts.map(conflict => conflict.message);
+  if (platformConflict) conflicts.push(platformConflict);
+
+  // A sweep's next value, then (no-repeat mode) a value that isn't in the history yet
+  const key = queryKey(pattern, specifier);
+  const used = settings.usedQueries?.get(key);
+  const cursor = settings.sweeps?.[key];
+  let sweep: SweepCursor | undefined;
+  if (filledSpecifier === undefined && cursor) {
+    const step = nextSweepStep(cursor, pattern, specifier, used);
+    filledSpecifier = step?.value;
+    sweep = step ? { ...cursor, position: step.position } : undefined;
+    if (!step) conflicts.push(`The sweep of "${pattern.name}${specifier}" went through every value, so this one is random`);
+  }
+  if (filledSpecifier === undefined && used) {
+    const pick = pickUnusedSpecifier(pattern, specifier, date, used, settings.query?.integerDistConfig, random);
+    if (pick.value !== null) {
+      filledSpecifier = pick.value;
+    } else if (pick.reason === 'exhausted') {
+      conflicts.push(`Every query of "${pattern.name}${specifier}" was already searched, so this one is a repeat`);
+    } else {
+      conflicts.push(`No unsearched query of "${pattern.name}${specifier}" came up in several tries, so this one may be a repeat`);
+    }
+  }
+
+  // Open-ended date ranges stop where the roll's window does, so replays build the same URL
+  const query = buildSearchQuery(pattern, specifier, date, {
+    ...settings.query,
+    random,
+    platform: platform.id,
+    filledSpecifier,
+    dateRangeEnd: dateWindow.end
+  });
+
+  if (query.dateLimit && !query.dateFilterApplied) {
+    conflicts.push(`${platform.name} can't filter by upload date, so "${query.dateFilter}" was left out`);
+  }
+
+  return { pattern, specifier, platform, dateWindow, today, date, query, conflicts, pickDraws, sweep };
+}
+
+/**
+ * The recorded settings, without candidates
+ */
+function recordSettings(record: RollRecord): Omit<RollSettings, 'candidates'> {
+  return {
+    strategy: record.strategy,
+    platformChoice: record.platformChoice,
+    age: record.age,
+    override: record.override ? { type: record.override.type, date: new Date(record.override.date) } : null,
+    dateDistConfig: record.dateDistConfig,
+    query: record.query
+  };
+}
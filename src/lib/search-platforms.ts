@@ -0,0 +1,246 @@
+/**
+ * Search Platforms - Adapters that turn a generated search into a site's URL
+ *
+ * RESPONSIBILITIES:
+ * The filename-style methods work on more sites than YouTube. Each site gets a
+ * SearchPlatform adapter that translates the quoted search term, the structured
+ * date filter and (where it applies) the YouTube filters into that site's URL.
+ * Sites that can't filter by an absolute date say so (dateFilterApplied: false)
+ * instead of silently dropping the filter.
+ *
+ * PLATFORM CHOICE:
+ * Patterns may list the platforms they make sense on (pattern.platforms);
+ * patterns without that list work everywhere. resolvePlatform() combines that
+ * list with the user's choice (one platform or 'random').
+ */
+
+import type { SearchPattern } from './method-logic.js';
+import { defaultRandom, randomChoice, type RandomSource } from './rng.js';
+import { encodeYouTubeFilters, type YouTubeSearchFilters } from './youtube-filters.js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type SearchPlatformId = 'youtube' | 'vimeo' | 'dailymotion' | 'archive' | 'bilibili' | 'odysee';
+
+/**
+ * A one-sided date limit on upload/publish date
+ */
+export interface SearchDateFilter {
+  type: 'before' | 'after';
+  date: Date;
+}
+
+/**
+ * Everything an adapter needs to build a URL
+ */
+export interface PlatformSearchInput {
+  searchTerm: string;                   // Query text: quoted name + filled specifier, operators, exclusions
+  dateFilter: SearchDateFilter | null;  // Upload date limit, if any
+  youtubeFilters: YouTubeSearchFilters; // Only used by YouTube
+  dateRangeEnd: Date;                   // Where an 'after' range stops, on sites that need both ends
+}
+
+export interface PlatformSearchURL {
+  url: string;
+  dateFilterApplied: boolean;           // False when the site can't filter by this date
+}
+
+export interface SearchPlatform {
+  id: SearchPlatformId;
+  name: string;
+  supportsDateFilter: boolean;
+  buildURL(input: PlatformSearchInput): PlatformSearchURL;
+}
+
+export type PlatformChoice = SearchPlatformId | 'random';
+
+export interface ResolvedPlatform {
+  platform: SearchPlatform;
+  conflict?: string;                    // Why the user's choice couldn't be used
+}
+
+// ============================================================================
+// ADAPTERS
+// ============================================================================
+
+const youtube: SearchPlatform = {
+  id: 'youtube',
+  name: 'YouTube',
+  supportsDateFilter: true,
+  buildURL({ searchTerm, dateFilter, youtubeFilters }) {
+    const query = dateFilter ? `${searchTerm} ${formatOperatorDateFilter(dateFilter)}` : searchTerm;
+    const params = new URLSearchParams({ search_query: query });
+    const sp = encodeYouTubeFilters(youtubeFilters);
+    if (sp) params.append('sp', sp);
+    return { url: `https://www.youtube.com/results?${params.toString()}`, dateFilterApplied: true };
+  }
+};
+
+// Vimeo, Dailymotion and Odysee only offer relative date filters ("this week"),
+// which can't express a before:/after: limit
+const vimeo: SearchPlatform = {
+  id: 'vimeo',
+  name: 'Vimeo',
+  supportsDateFilter: false,
+  buildURL({ searchTerm, dateFilter }) {
+    const params = new URLSearchParams({ q: searchTerm });
+    return { url: `https://vimeo.com/search?${params.toString()}`, dateFilterApplied: dateFilter === null };
+  }
+};
+
+const dailymotion: SearchPlatform = {
+  id: 'dailymotion',
+  name: 'Dailymotion',
+  supportsDateFilter: false,
+  buildURL({ searchTerm, dateFilter }) {
+    return {
+      url: `https://www.dailymotion.com/search/${encodeURIComponent(searchTerm)}/videos`,
+      dateFilterApplied: dateFilter === null
+    };
+  }
+};
+
+// The Internet Archive takes Lucene-style queries, including publicdate ranges
+const archive: SearchPlatform = {
+  id: 'archive',
+  name: 'Internet Archive',
+  supportsDateFilter: true,
+  buildURL({ searchTerm, dateFilter }) {
+    let query = `${searchTerm} AND mediatype:movies`;
+    if (dateFilter) {
+      const date = formatISODate(dateFilter.date);
+      query += dateFilter.type === 'before' ? ` AND publicdate:[* TO ${date}]` : ` AND publicdate:[${date} TO *]`;
+    }
+    const params = new URLSearchParams({ query });
+    return { url: `https://archive.org/search?${params.toString()}`, dateFilterApplied: true };
+  }
+};
+
+// Bilibili filters by publish time in Unix seconds and needs both ends of the range
+const bilibili: SearchPlatform = {
+  id: 'bilibili',
+  name: 'Bilibili',
+  supportsDateFilter: true,
+  buildURL({ searchTerm, dateFilter, dateRangeEnd }) {
+    const params = new URLSearchParams({ keyword: searchTerm });
+    if (dateFilter) {
+      const seconds = Math.floor(dateFilter.date.getTime() / 1000);
+      const end = Math.floor(dateRangeEnd.getTime() / 1000);
+      params.append('pubtime_begin_s', String(dateFilter.type === 'before' ? 0 : seconds));
+      params.append('pubtime_end_s', String(dateFilter.type === 'before' ? seconds : end));
+    }
+    return { url: `https://search.bilibili.com/video?${params.toString()}`, dateFilterApplied: true };
+  }
+};
+
+const odysee: SearchPlatform = {
+  id: 'odysee',
+  name: 'Odysee',
+  supportsDateFilter: false,
+  buildURL({ searchTerm, dateFilter }) {
+    const params = new URLSearchParams({ q: searchTerm });
+    return { url: `https://odysee.com/$/search?${params.toString()}`, dateFilterApplied: dateFilter === null };
+  }
+};
+
+/**
+ * Every platform adapter, keyed by id (YouTube first; it's the default)
+ */
+export const SEARCH_PLATFORMS: Record<SearchPlatformId, SearchPlatform> = {
+  youtube,
+  vimeo,
+  dailymotion,
+  archive,
+  bilibili,
+  odysee
+};
+
+export const SEARCH_PLATFORM_LIST: SearchPlatform[] = Object.values(SEARCH_PLATFORMS);
+
+export const DEFAULT_PLATFORM_ID: SearchPlatformId = 'youtube';
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Look up a platform adapter
+ * @returns The adapter, or null for an unknown id
+ */
+export function getSearchPlatform(id: string): SearchPlatform | null {
+  return (SEARCH_PLATFORMS as Record<string, SearchPlatform>)[id] ?? null;
+}
+
+/**
+ * The platforms a pattern is meaningful on
+ * Unknown ids are skipped with a warning; no list (or an empty one) means all platforms.
+ */
+export function patternPlatforms(pattern: SearchPattern): SearchPlatform[] {
+  const all = SEARCH_PLATFORM_LIST;
+  if (!pattern.platforms || pattern.platforms.length === 0) return all;
+
+  const platforms: SearchPlatform[] = [];
+  for (const id of pattern.platforms) {
+    const platform = getSearchPlatform(id);
+    if (platform) {
+      platforms.push(platform);
+    } else {
+      console.warn(`Unknown platform "${id}" on "${pattern.name}"`);
+    }
+  }
+
+  return platforms.length > 0 ? platforms : all;
+}
+
+/**
+ * Pick the platform for one roll
+ * 'random' picks among the pattern's platforms. A specific choice the pattern
+ * isn't meaningful on falls back to the pattern's first platform and reports a conflict.
+ *
+ * @param pattern - The selected search pattern
+ * @param choice - The user's platform choice
+ * @param random - Source of randomness (only drawn from for 'random')
+ */
+export function resolvePlatform(
+  pattern: SearchPattern,
+  choice: PlatformChoice = DEFAULT_PLATFORM_ID,
+  random: RandomSource = defaultRandom
+): ResolvedPlatform {
+  const platforms = patternPlatforms(pattern);
+
+  if (choice === 'random') {
+    return { platform: randomChoice(platforms, random) };
+  }
+
+  const chosen = platforms.find(platform => platform.id === choice);
+  if (chosen) return { platform: chosen };
+
+  const fallback = platforms[0];
+  return {
+    platform: fallback,
+    conflict: `"${pattern.name}" isn't meaningful on ${getSearchPlatform(choice)?.name ?? choice}, so it was searched on ${fallback.name}`
+  };
+}
+
+/**
+ * Write a date filter as a search operator, e.g. "before:2014-03-15"
+ */
+export function formatOperatorDateFilter(dateFilter: SearchDateFilter): string {
+  return `${dateFilter.type}:${formatISODate(dateFilter.date)}`;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Format a date as YYYY-MM-DD in local time
+ */
+function formatISODate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
@@ -1,12 +1,15 @@
 /**
- * Search Settings - Search Term Formatting & YouTube URL Generation
+ * Search Settings - Search Term Formatting & Search URL Generation
  *
  * REFACTORED RESPONSIBILITIES:
  * This module is now responsible for taking a search term object (selected by +page.svelte)
- * and formatting it into a complete YouTube search URL.
+ * and formatting it into a complete search URL (YouTube by default; the other sites'
+ * URL syntax lives in search-platforms.ts).
  *
  * NEW FUNCTIONS:
  *  - formatSearchTermToURL(): Takes a SearchPattern object and returns a formatted YouTube URL
+ *  - buildSearchQuery(): Same as above, but returns every generated piece (term, filter, URL)
+ *  - withQueryText(): Rebuilds a query's URL from edited query text
  *  - generateSpecifierValue(): Fills in specifier templates (YYYY, XXXX, etc.) with actual values
  *  - meetsDateConstraints(): Checks if a pattern meets date constraints
  *  - Helper functions for date/time generation and constraint parsing
@@ -16,12 +19,62 @@
  *  2. Pass that object to formatSearchTermToURL()
  *  3. This function generates the specifier, applies constraints, and formats the YouTube URL
  *  4. Returns the complete URL ready to open in a new tab
+ *
+ * QUERY TEXT:
+ *   "IMG 1234" vlog intitle:clip -minecraft -"lets play"
+ *   └ term ──┘ └ operators ───┘ └ exclusions ────────┘
+ * The term is quoted to force an exact match unless exactMatch is off.
+ * Operators and exclusions come from the pattern and from the user's settings.
+ * The date filter is added by the platform adapter (search-platforms.ts).
  */
 
 // Import types from method-logic
 import type { SearchPattern, Constraint } from './method-logic.js';
 import type { DistributionConfig } from './randomness.js';
 import { generateConstrainedInteger } from './randomness.js';
+import { defaultRandom, randomInt, type RandomSource } from './rng.js';
+import { parseFieldRange, parseSpecifierTemplate, templateHasYear } from './specifier-template.js';
+import type { DateTokenUnit, FieldKind, FieldToken } from './specifier-template.js';
+import { DEFAULT_YOUTUBE_FILTERS, mergeYouTubeFilters, patternYouTubeFilters } from './youtube-filters.js';
+import type { YouTubeSearchFilters } from './youtube-filters.js';
+import { DEFAULT_PLATFORM_ID, SEARCH_PLATFORMS, formatOperatorDateFilter } from './search-platforms.js';
+import type { SearchDateFilter, SearchPlatformId } from './search-platforms.js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Optional knobs for building a search query
+ */
+export interface SearchQueryOptions {
+  dateOverride?: boolean;                 // Whether custom date override is enabled
+  integerDistConfig?: DistributionConfig; // Distribution for integer (X) fields
+  random?: RandomSource;                  // Seeded source for every random choice
+  youtubeFilters?: YouTubeSearchFilters;  // User's search filters (default: upload date sort, videos only)
+  platform?: SearchPlatformId;            // Site to search (default: YouTube)
+  exactMatch?: boolean;                   // Quote the name + specifier (default: true)
+  excludeTerms?: string[];                // Words to leave out, added to the pattern's own
+  operators?: string[];                   // Extra words/operators, added to the pattern's own
+  filledSpecifier?: string;               // Use this instead of filling the template (no-repeat rolls, replays)
+  dateRangeEnd?: Date;                    // End of an 'after' range on sites that need one (default: now)
+}
+
+/**
+ * Everything produced while formatting one search
+ */
+export interface SearchQuery {
+  filledSpecifier: string; // Specifier with placeholders filled (e.g., "1234")
+  searchTerm: string;      // Name + filled specifier (quoted unless exactMatch is off)
+  queryText: string;       // searchTerm + operators + exclusions (everything but the date filter)
+  dateFilter: string;      // e.g., "before:2014-03-15", or '' for none
+  dateLimit: SearchDateFilter | null; // The same date filter, structured
+  dateFilterApplied: boolean; // False when the platform can't filter by dateLimit
+  filters: YouTubeSearchFilters; // Search filters after the pattern's filter constraints
+  platform: SearchPlatformId; // Site the URL searches
+  url: string;             // Complete search URL
+  dateRangeEnd: Date;      // End of an 'after' range in the URL (kept so withQueryText() builds the same one)
+}
 
 // ============================================================================
 // NEW PUBLIC API: SEARCH TERM FORMATTING
@@ -33,13 +86,14 @@ import { generateConstrainedInteger } from './randomness.js';
  * NEW WORKFLOW:
  * 1. Pattern-match to return a search term with the specifier filled in
  * 2. Determine how to add date-tag (before:/after:)
- * 3. Always filter videos by upload date
+ * 3. Encode the search filters (user settings + pattern filter constraints) into sp
  *
  * @param pattern - The search pattern object to format
  * @param specifier - The specific specifier to use from pattern.specifiers
  * @param formattedDate - The date from +page.svelte randomSpecDay()
  * @param dateOverride - Whether custom date override is enabled
  * @param integerDistConfig - Optional distribution config for integer generation
+ * @param random - Optional seeded source for every random choice
  * @returns Complete YouTube search URL ready to open
  */
 export function formatSearchTermToURL(
@@ -47,223 +101,312 @@ export function formatSearchTermToURL(
   specifier: string,
   formattedDate: Date,
   dateOverride: boolean,
-  integerDistConfig?: DistributionConfig
+  integerDistConfig?: DistributionConfig,
+  random?: RandomSource
 ): string {
+  return buildSearchQuery(pattern, specifier, formattedDate, { dateOverride, integerDistConfig, random }).url;
+}
+
+/**
+ * Build a search query and return every generated piece of it
+ * Use this instead of formatSearchTermToURL when the filled specifier is
+ * needed too (e.g., for history), so both come from the same random draw.
+ *
+ * @param pattern - The search pattern object to format
+ * @param specifier - The specific specifier to use from pattern.specifiers
+ * @param formattedDate - The date from +page.svelte randomSpecDay()
+ * @param options - Date override, integer distribution, random source, search filters and platform
+ * @returns The filled specifier, quoted search term, date filter, search filters, platform and URL
+ */
+export function buildSearchQuery(
+  pattern: SearchPattern,
+  specifier: string,
+  formattedDate: Date,
+  options: SearchQueryOptions = {}
+): SearchQuery {
+  const {
+    dateOverride = false,
+    integerDistConfig,
+    random = defaultRandom,
+    youtubeFilters = DEFAULT_YOUTUBE_FILTERS,
+    platform = DEFAULT_PLATFORM_ID,
+    exactMatch = true,
+    dateRangeEnd = new Date()
+  } = options;
 
   // Step 1: Pattern-match to generate the search term (name + filled specifier)
-  let searchTerm = generateSearchTerm(pattern.name, specifier, pattern, formattedDate, integerDistConfig);
+  const filledSpecifier = options.filledSpecifier ??
+    fillSpecifierTemplate(specifier, pattern, formattedDate, integerDistConfig, random);
+  let searchTerm = filledSpecifier ? `${pattern.name}${filledSpecifier}` : pattern.name;
 
   // Step 1.5: Add Quotes around the entire Search Term to force exact match
-  searchTerm = `"${searchTerm}"`;
-
-  // Step 2: Determine the date filter
-  const dateFilter = determineDateFilter(specifier, pattern, formattedDate, searchTerm, dateOverride);
+  if (exactMatch) searchTerm = `"${searchTerm}"`;
 
-  // Combine search term with date filter
-  const fullSearchTerm = dateFilter ? `${searchTerm} ${dateFilter}` : searchTerm;
+  // Step 1.75: Add the pattern's and the user's operators and exclusions
+  const queryText = composeQueryText(
+    searchTerm,
+    [...(pattern.operators ?? []), ...(options.operators ?? [])],
+    [...(pattern.excludeTerms ?? []), ...(options.excludeTerms ?? [])]
+  );
 
-  // Step 3: Build YouTube search URL with upload date sort
-  const params = new URLSearchParams({
-    search_query: fullSearchTerm
+  // Step 2: Determine the date filter
+  const dateLimit = determineDateFilter(specifier, pattern, formattedDate, searchTerm, dateOverride);
+
+  // Step 3: Let the platform adapter build the URL
+  // The pattern's filter constraints (e.g., "playlist") win over the user's settings
+  const filters = mergeYouTubeFilters(youtubeFilters, patternYouTubeFilters(pattern));
+  const { url, dateFilterApplied } = SEARCH_PLATFORMS[platform].buildURL({
+    searchTerm: queryText,
+    dateFilter: dateLimit,
+    youtubeFilters: filters,
+    dateRangeEnd
   });
 
-  // Always sort by upload date
-  // Use upload date filter (this ensures we're filtering by upload date)
-  params.append('sp', 'CAISAhAB'); // Upload date sort
+  return {
+    filledSpecifier,
+    searchTerm,
+    queryText,
+    dateFilter: dateLimit ? formatOperatorDateFilter(dateLimit) : '',
+    dateLimit,
+    dateFilterApplied,
+    filters,
+    platform,
+    url,
+    dateRangeEnd
+  };
+}
 
-  // Return the complete YouTube URL
-  return `https://www.youtube.com/results?${params.toString()}`;
+/**
+ * Rebuild a query's URL from edited query text, keeping its date filter, search filters and platform
+ * @param query - A query from buildSearchQuery()
+ * @param queryText - The text to search for instead of query.queryText
+ */
+export function withQueryText(query: SearchQuery, queryText: string): SearchQuery {
+  const { url, dateFilterApplied } = SEARCH_PLATFORMS[query.platform].buildURL({
+    searchTerm: queryText.trim(),
+    dateFilter: query.dateLimit,
+    youtubeFilters: query.filters,
+    dateRangeEnd: query.dateRangeEnd
+  });
+  return { ...query, queryText: queryText.trim(), url, dateFilterApplied };
 }
 
 // ============================================================================
-// HELPER FUNCTIONS: PATTERN MATCHING & SPECIFIER GENERATION
+// PUBLIC API: QUERY TEXT
 // ============================================================================
 
 /**
- * Step 3: Generate a search term by pattern-matching the specifier template
- * Fills in placeholders like YYYY, MM, DD, XXXX, etc.
- *
- * @param name - The base search term name
- * @param specifier - The specifier template (e.g., "YYYY MM DD", "XXXX")
- * @param pattern - The SearchPattern object for constraints
- * @param formattedDate - The date to use when filling in date placeholders
- * @param integerDistConfig - Optional distribution config for integer generation
- * @returns Complete search term (name + filled specifier)
+ * Put the query text together: term, then operators, then exclusions (duplicates dropped)
  */
-function generateSearchTerm(
-  name: string,
-  specifier: string,
-  pattern: SearchPattern,
-  formattedDate: Date,
-  integerDistConfig?: DistributionConfig
-): string {
-  // If no specifier, just return the name
-  if (!specifier || specifier === '') {
-    return name;
-  }
+export function composeQueryText(searchTerm: string, operators: string[] = [], excludeTerms: string[] = []): string {
+  const extras = uniqueTerms(operators);
+  const exclusions = uniqueTerms(excludeTerms.map(term => term.replace(/^-+/, ''))).map(formatExcludeTerm);
+  return [searchTerm, ...extras, ...exclusions].filter(part => part !== '').join(' ');
+}
 
-  // Generate the specifier value by filling in template placeholders
-  const specifierValue = fillSpecifierTemplate(specifier, pattern, formattedDate, integerDistConfig);
+/**
+ * "minecraft" → "-minecraft", "lets play" → '-"lets play"'
+ */
+export function formatExcludeTerm(term: string): string {
+  const word = term.trim().replace(/^-+/, '');
+  return /\s/.test(word) && !/^".*"$/.test(word) ? `-"${word}"` : `-${word}`;
+}
 
-  // Combine name + specifier
-  return specifierValue ? `${name}${specifierValue}` : name;
+/**
+ * Read a comma-separated list of words or operators ("minecraft, fortnite, lets play")
+ */
+export function parseQueryTerms(text: string): string[] {
+  return uniqueTerms(text.split(','));
 }
 
+// ============================================================================
+// HELPER FUNCTIONS: PATTERN MATCHING & SPECIFIER GENERATION
+// ============================================================================
+
 /**
  * Fill in template placeholders in a specifier
+ * The template is tokenized first (see specifier-template.ts), so placeholders
+ * never collide with each other or with literal text.
  * Handles templates like:
  * - YYYY MM DD -> 2024 03 15
  * - XXXX -> 1234
  * - HHMMSS -> 143059
+ * - {X2}.DAT -> 07.DAT
  * @param integerDistConfig - Optional distribution config for integer generation
+ * @param random - Optional seeded source for the random (X) fields
  */
 export function fillSpecifierTemplate(
   specifier: string,
   pattern: SearchPattern,
   formattedDate: Date,
-  integerDistConfig?: DistributionConfig
+  integerDistConfig?: DistributionConfig,
+  random: RandomSource = defaultRandom
 ): string {
   if (!specifier || specifier === '') return '';
 
-  let result = specifier;
-
-  // Replace date/time placeholders
-  // YYYY - Year (4 digits)
-  if (result.includes('YYYY')) {
-    let year: number;
-    year = formattedDate.getFullYear();
-    result = result.replace(/YYYY/g, year.toString().padStart(4, '0'));
+  const parsed = parseSpecifierTemplate(specifier);
+  if (parsed.errors.length > 0) {
+    console.warn('Specifier template has errors:', specifier, parsed.errors);
   }
 
-  // Month - Month (January - December)
-  if (result.includes('Month')) {
-    const monthNames = [
-      'January', 'February', 'March', 'April', 'May', 'June',
-      'July', 'August', 'September', 'October', 'November', 'December'
-    ];
-    const monthIndex = formattedDate.getMonth();
-    result = result.replace(/Month/g, monthNames[monthIndex]);
-  }
+  // Each field gets its own constraint (see resolveSpecifierFields)
+  const fields = parsed.fields.map(field => resolveField(field, pattern));
+
+  return parsed.tokens.map(token => {
+    switch (token.type) {
+      case 'literal':
+        return token.text;
+      case 'date':
+        return formatDateToken(token.unit, formattedDate);
+      case 'field':
+        return generateFieldValue(fields[token.index], integerDistConfig, random);
+    }
+  }).join('');
+}
 
-  // Mon - Short Month (Jan - Dec)
-  if (result.includes('Mon')) {
-    const shortMonthNames = [
-      'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun',
-      'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'
-    ];
-    const monthIndex = formattedDate.getMonth();
-    result = result.replace(/Mon/g, shortMonthNames[monthIndex]);
+/**
+ * Format one date/time placeholder from the chosen date
+ */
+function formatDateToken(unit: DateTokenUnit, date: Date): string {
+  switch (unit) {
+    case 'year':
+      return date.getFullYear().toString().padStart(4, '0');
+    case 'year-short':
+      return (date.getFullYear() % 100).toString().padStart(2, '0');
+    case 'month':
+      return (date.getMonth() + 1).toString().padStart(2, '0'); // Months are 0-indexed
+    case 'month-name':
+      return MONTH_NAMES[date.getMonth()];
+    case 'month-short':
+      return MONTH_NAMES[date.getMonth()].slice(0, 3);
+    case 'day':
+      return date.getDate().toString().padStart(2, '0');
+    case 'hour':
+      return date.getHours().toString().padStart(2, '0');
+    case 'minute':
+      return date.getMinutes().toString().padStart(2, '0');
+    case 'second':
+      return date.getSeconds().toString().padStart(2, '0');
   }
+}
 
-  // MM - Month (01-12)
-  if (result.includes('MM')) {
-    const month = formattedDate.getMonth() + 1; // Months are 0-indexed
-    result = result.replace(/MM/g, month.toString().padStart(2, '0'));
-  }
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
 
-  // DD - Day (01-31)
-  if (result.includes('DD')) {
-    const day = formattedDate.getDate().toString().padStart(2, '0');
-    result = result.replace(/DD/g, day);
-  }
+/**
+ * A random (X) field together with the constraint that governs it
+ */
+export interface ResolvedField {
+  index: number;            // 0-based position among the specifier's fields
+  name?: string;            // Field name from a braced template ({X3=serial})
+  width: number;            // Number of characters generated
+  kind: FieldKind;          // number / hex / letter
+  min: number;              // Smallest value (character code for letters)
+  max: number;              // Largest value (character code for letters)
+  constraint?: Constraint;  // The constraint that set min/max, if any
+}
 
-  // HH - Hours (00-23)
-  if (result.includes('HH')) {
-    const hours = formattedDate.getHours().toString().padStart(2, '0');
-    result = result.replace(/HH/g, hours);
-  }
+/**
+ * Work out which constraint applies to each random (X) field of a specifier
+ *
+ * A constraint with a `field` (index or name) applies only to that field and
+ * wins over untargeted constraints. Untargeted constraints keep the old
+ * behaviour: the last matching one applies to every remaining field.
+ *
+ * @param specifier - The specifier template (e.g., "XX X", "{X2=tape} {X1}")
+ * @param pattern - The SearchPattern whose constraints to apply
+ * @returns One entry per field, in template order
+ */
+export function resolveSpecifierFields(specifier: string, pattern: SearchPattern): ResolvedField[] {
+  return parseSpecifierTemplate(specifier).fields.map(field => resolveField(field, pattern));
+}
 
-  // mm - Minutes (00-59)
-  if (result.includes('mm')) {
-    const minutes = formattedDate.getMinutes().toString().padStart(2, '0');
-    result = result.replace(/mm/g, minutes);
-  }
+function resolveField(field: FieldToken, pattern: SearchPattern): ResolvedField {
+  const targetsField = (constraint: Constraint) =>
+    constraint.field === field.index || (field.name !== undefined && constraint.field === field.name);
 
-  // SS - Seconds (00-59)
-  if (result.includes('SS')) {
-    const seconds = formattedDate.getSeconds().toString().padStart(2, '0');
-    result = result.replace(/SS/g, seconds);
-  }
+  let chosen: { constraint: Constraint; kind: FieldKind; range: { min: number; max: number } } | undefined;
+  let targeted = false;
 
-  // X - Any amount of X's will be replaced with that many random digits (consider constraints)
-  if (result.includes('X')) {
-    // Determine how many separate words of X's there are 
-    const xMatches = result.match(/X+/g);
-
-    if (xMatches) {
-      // Process each X field separately
-      for (const xGroup of xMatches) {
-        const xCount = xGroup.length;
-
-        // Determine if any constraints apply
-        let min = 0;
-        let max = Math.pow(10, xCount) - 1; // Default max based on X count (e.g., X=9, XX=99, XXX=999)
-        let constraintType: 'number' | 'letter' | 'hex' = 'number'; // Default to number
-
-        // Check for constraints that apply to this X field
-        for (const constraint of pattern.constraints) {
-
-          // For Number Ranges
-          if (constraint.type === 'range') {
-            const range = parseRangeConstraint(String(constraint.value));
-            if (range) {
-              console.log('Applying range constraint:', range);
-              min = range.min;
-              max = range.max;
-              constraintType = 'number';
-            }
-
-          // For Letter Ranges
-          } else if (constraint.type === 'letter-range') {
-            const range = parseRangeConstraint(String(constraint.value));
-            if (range) {
-              console.log('Applying letter-range constraint:', range);
-              min = range.min;
-              max = range.max;
-              constraintType = 'letter';
-            }
-          
-          // For Hex Ranges
-          } else if (constraint.type === 'hex-range') {
-            const range = parseRangeConstraint(String(constraint.value));
-            if (range) {
-              console.log('Applying hex-range constraint:', range);
-              min = range.min;
-              max = range.max;
-              constraintType = 'hex';
-            }
-          }
-        }
-
-        // Generate a value that goes between the given constraints
-        let replacement: string;
-
-        if (constraintType === 'letter') {
-          const randomNum = integerDistConfig
-            ? generateConstrainedInteger(min, max, integerDistConfig)
-            : getRandomInt(min, max);
-          replacement = String.fromCharCode(randomNum);
-        } else if (constraintType === 'hex') {
-          const randomNum = integerDistConfig
-            ? generateConstrainedInteger(min, max, integerDistConfig)
-            : getRandomInt(min, max);
-          replacement = randomNum.toString(16).toUpperCase();
-        } else {
-          // Default: number
-          const randomNum = integerDistConfig
-            ? generateConstrainedInteger(min, max, integerDistConfig)
-            : getRandomInt(min, max);
-          replacement = randomNum.toString();
-        }
-
-        // Step 5: Set that to the result but keep the formatting the same (pad to match X count)
-        replacement = replacement.padStart(xCount, '0');
-        result = result.replace(xGroup, replacement);
-      }
+  // Check for constraints that apply to this X field
+  // An explicit kind in the template ({X2:hex}) only accepts constraints of that kind
+  for (const constraint of pattern.constraints) {
+    const kind = CONSTRAINT_FIELD_KINDS[constraint.type];
+    if (!kind || (field.kind && field.kind !== kind)) continue;
+
+    const isTargeted = constraint.field !== undefined;
+    if (isTargeted && !targetsField(constraint)) continue;
+    if (targeted && !isTargeted) continue; // A targeted constraint already won
+
+    const range = parseFieldRange(String(constraint.value), kind);
+    if (range) {
+      chosen = { constraint, kind, range };
+      targeted = isTargeted;
     }
   }
 
-  return result;
+  const kind = chosen?.kind ?? field.kind ?? 'number'; // Default to number
+  const { min, max } = chosen?.range ?? defaultFieldRange(kind, field.width); // e.g., X=9, XX=99, XXX=999
+
+  return {
+    index: field.index,
+    name: field.name,
+    width: field.width,
+    kind,
+    min,
+    max,
+    constraint: chosen?.constraint
+  };
+}
+
+/**
+ * Generate the value for one random (X) field
+ * A field of N X's is replaced with N random characters.
+ */
+function generateFieldValue(
+  field: ResolvedField,
+  integerDistConfig: DistributionConfig | undefined,
+  random: RandomSource
+): string {
+  const { min, max } = field;
+
+  // Generate a value that goes between the given constraints
+  const drawValue = () => integerDistConfig
+    ? generateConstrainedInteger(min, max, integerDistConfig, random)
+    : randomInt(min, max, random);
+
+  let replacement: string;
+  if (field.kind === 'letter') {
+    // Letters are drawn one per X
+    replacement = Array.from({ length: field.width }, () => String.fromCharCode(drawValue())).join('');
+  } else if (field.kind === 'hex') {
+    replacement = drawValue().toString(16).toUpperCase();
+  } else {
+    // Default: number
+    replacement = drawValue().toString();
+  }
+
+  // Keep the formatting the same (pad to match X count)
+  return replacement.padStart(field.width, '0');
+}
+
+// Which field kind each range-style constraint produces
+const CONSTRAINT_FIELD_KINDS: Partial<Record<Constraint['type'], FieldKind>> = {
+  'range': 'number',
+  'letter-range': 'letter',
+  'hex-range': 'hex'
+};
+
+/**
+ * Values a field can hold when no constraint narrows it
+ * Letters are character codes (A-Z), one letter per X
+ */
+function defaultFieldRange(kind: FieldKind, width: number): { min: number; max: number } {
+  if (kind === 'hex') return { min: 0, max: Math.pow(16, width) - 1 };
+  if (kind === 'letter') return { min: 'A'.charCodeAt(0), max: 'Z'.charCodeAt(0) };
+  return { min: 0, max: Math.pow(10, width) - 1 };
 }
 
 // ============================================================================
@@ -277,7 +420,7 @@ export function fillSpecifierTemplate(
  * @param pattern - The SearchPattern object
  * @param formattedDate - The date from +page.svelte randomSpecDay()
  * @param searchTerm - The generated search term (name + filled specifier) for extracting date
- * @returns Date filter string (e.g., "after:2020-01-15" or "before:2024-12-31" or empty string)
+ * @returns Date filter (e.g., after 2020-01-15 or before 2024-12-31), or null for none
  */
 function determineDateFilter(
   specifier: string,
@@ -285,17 +428,14 @@ function determineDateFilter(
   formattedDate: Date,
   searchTerm: string,
   dateOverride: boolean
-): string {
-  // If the specifier contains YYYY (year placeholder), make it after: that year
-  const hasYearPlaceholder = /YYYY/.test(specifier);
+): SearchDateFilter | null {
+  // If the specifier contains a year placeholder, make it after: that year
+  const hasYearPlaceholder = templateHasYear(specifier);
 
   // If the override date is used, we just do before: that date and end it there
   if (dateOverride) {
     console.log('Applying date filter for override pattern');
-    const year = formattedDate.getFullYear();
-    const month = String(formattedDate.getMonth() + 1).padStart(2, '0');
-    const day = String(formattedDate.getDate()).padStart(2, '0');
-    return `before:${year}-${month}-${day}`;
+    return { type: 'before', date: formattedDate };
   }
 
   if (hasYearPlaceholder) {
@@ -304,69 +444,42 @@ function determineDateFilter(
     const match = searchTerm.match(yearRegex);
 
     if (match) {
-      const year = match[1];
-      const month = formattedDate.getMonth() + 1; // Months are 0-indexed
-      const day = formattedDate.getDate();
+      const year = parseInt(match[1], 10);
       console.log('Applying date filter from specifier year:', year);
-      // Use January 1st of that year for the after: filter
-      return `after:${year}-${month}-${day}`;
+      // Keep the month and day of formattedDate, in the year from the specifier
+      return { type: 'after', date: new Date(year, formattedDate.getMonth(), formattedDate.getDate()) };
     }
   }
 
   // 4b. If the search is tagged as 'old', make it before formattedDate
   if (pattern.age === 'old') {
     console.log('Applying date filter for old pattern');
-    const year = formattedDate.getFullYear();
-    const month = String(formattedDate.getMonth() + 1).padStart(2, '0');
-    const day = String(formattedDate.getDate()).padStart(2, '0');
-    return `before:${year}-${month}-${day}`;
+    return { type: 'before', date: formattedDate };
   }
 
   // 4c. If the search is tagged as 'new', don't add any date tag
   if (pattern.age === 'new') {
     console.log('No date filter applied for new pattern');
-    return '';
+    return null;
   }
 
   // Default: no date filter
-  return '';
+  return null;
 }
 
-/**
- * Parse a range constraint value
- * Format: "min-max" like "1000-9999" or "1-12"
- */
-function parseRangeConstraint(value: string): { min: number; max: number } | null {
-  const parts = value.split('-');
-  if (parts.length !== 2) return null;
-
-  const min = parseInt(parts[0], 10);
-  const max = parseInt(parts[1], 10);
-
-  if (isNaN(min) || isNaN(max)) return null;
-
-  return { min, max };
-}
+// ============================================================================
+// HELPER FUNCTIONS: QUERY TEXT
+// ============================================================================
 
 /**
- * Generate a random integer between min and max (inclusive)
+ * Trimmed, non-empty, first occurrence only (case-insensitive)
  */
-function getRandomInt(min: number, max: number): number {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
-}
-
-function getRandomLetter(min: number, max: number): string {
-  const letters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
-  const letterArray = letters.split('');
-  const randomIndex = Math.floor(Math.random() * (max - min + 1)) + min;
-  return letterArray[randomIndex % letterArray.length];
-}
-
-function getRandomHex(min: number, max: number): string {
-  const hexChars = '0123456789ABCDEF';
-  const hexArray = hexChars.split('');
-  const randomIndex = Math.floor(Math.random() * (max - min + 1)) + min;
-  return hexArray[randomIndex % hexArray.length];
+function uniqueTerms(terms: string[]): string[] {
+  const seen = new Set<string>();
+  return terms.map(term => term.trim()).filter(term => {
+    const key = term.toLowerCase();
+    if (term === '' || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
 }
-
-
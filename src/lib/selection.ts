@@ -0,0 +1,335 @@
+/**
+ * Selection - Weighted picking of a pattern and specifier for a roll
+ *
+ * RESPONSIBILITIES:
+ * Without weights every active pattern is equally likely, and so is every
+ * selected specifier of the chosen pattern. Weights change those odds:
+ *  - pattern.weight                  How often the pattern is picked (default 1, 0 = never)
+ *  - pattern.specifierWeights        Per specifier, keyed by the specifier text (default 1)
+ *  - genre weights (user setting)    Multiply the weight of every pattern of that genre
+ *
+ * The chance of a pattern is genreWeight × weight over the sum for all active
+ * patterns; the chance of a specifier is its weight over the pattern's
+ * selected specifiers. With every weight at 1 this is the old uniform pick.
+ *
+ * Pattern and specifier weights are stored with the pattern (custom terms,
+ * packs, search-terms.json). Genre weights are kept in localStorage.
+ *
+ * STRATEGIES:
+ * The above is the 'pattern' strategy. With every genre selected, genres with
+ * many patterns (Camera, Misc) win almost every roll, so a roll can also walk
+ * the pool another way (weights still apply at every step):
+ *  - pattern      A pattern, then one of its specifiers (the default)
+ *  - genre        A genre, then a pattern of that genre, then a specifier
+ *  - term         A name + specifier combination directly
+ *  - round-robin  The genre after the last roll's (alphabetically, wrapping), then a pattern and specifier
+ * The chosen strategy is kept in localStorage like the genre weights.
+ */
+
+import type { SearchPattern } from './method-logic.js';
+import { weightedChoice, type RandomSource } from './rng.js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Weight per genre (genres not listed weigh 1)
+ */
+export type GenreWeights = Record<string, number>;
+
+export type SelectionStrategy = 'pattern' | 'genre' | 'term' | 'round-robin';
+
+export interface SelectionOptions {
+  strategy?: SelectionStrategy;     // Default 'pattern'
+  previousGenre?: string | null;    // round-robin: genre of the last roll (null = start with the first genre)
+}
+
+/**
+ * A pattern that can be picked, with the specifiers it may be rolled with
+ */
+export interface SelectionCandidate {
+  pattern: SearchPattern;
+  specifiers: string[];   // Selected specifiers ([] = roll with the first specifier)
+}
+
+export interface SelectionResult {
+  pattern: SearchPattern;
+  specifier: string;
+}
+
+/**
+ * The chance of one pattern + specifier combination
+ */
+export interface SelectionOdds {
+  pattern: SearchPattern;
+  specifier: string;
+  probability: number;    // 0-1
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const GENRE_WEIGHTS_KEY = 'genreWeights';
+const STRATEGY_KEY = 'selectionStrategy';
+
+export const DEFAULT_WEIGHT = 1;
+
+export const DEFAULT_STRATEGY: SelectionStrategy = 'pattern';
+
+export const SELECTION_STRATEGY_LABELS: Record<SelectionStrategy, string> = {
+  'pattern': 'Per pattern',
+  'genre': 'Per genre, then pattern',
+  'term': 'Per name + specifier',
+  'round-robin': 'Genres take turns'
+};
+
+// ============================================================================
+// PUBLIC API: WEIGHTS
+// ============================================================================
+
+/**
+ * A pattern's weight including its genre's weight
+ */
+export function patternWeight(pattern: SearchPattern, genreWeights: GenreWeights = {}): number {
+  return usableWeight(pattern.weight) * usableWeight(genreWeights[pattern.genre]);
+}
+
+/**
+ * A specifier's weight within its pattern
+ */
+export function specifierWeight(pattern: SearchPattern, specifier: string): number {
+  return usableWeight(pattern.specifierWeights?.[specifier]);
+}
+
+/**
+ * Whether a pattern has any weight other than the default
+ */
+export function hasCustomWeights(pattern: SearchPattern): boolean {
+  return (pattern.weight !== undefined && pattern.weight !== DEFAULT_WEIGHT) ||
+    Object.values(pattern.specifierWeights ?? {}).some(weight => weight !== DEFAULT_WEIGHT);
+}
+
+// ============================================================================
+// PUBLIC API: PICKING
+// ============================================================================
+
+/**
+ * Pick a pattern and specifier by weight, walking the pool as the strategy says
+ * @returns The pick, or null when there are no candidates or every weight is 0
+ */
+export function pickWeighted(
+  candidates: SelectionCandidate[],
+  genreWeights: GenreWeights,
+  random: RandomSource,
+  options: SelectionOptions = {}
+): SelectionResult | null {
+  if ((options.strategy ?? DEFAULT_STRATEGY) !== 'pattern') {
+    // The other strategies draw once from their odds
+    const odds = selectionOdds(candidates, genreWeights, options);
+    const pick = weightedChoice(odds, odds.map(entry => entry.probability), random);
+    return pick ? { pattern: pick.pattern, specifier: pick.specifier } : null;
+  }
+
+  // Pattern, then specifier (two draws, so seeds from before strategies still reproduce)
+  const candidate = weightedChoice(candidates, candidates.map(c => candidateWeight(c, genreWeights)), random);
+  if (!candidate) return null;
+
+  if (candidate.specifiers.length === 0) {
+    return { pattern: candidate.pattern, specifier: candidate.pattern.specifiers[0] };
+  }
+
+  const specifier = weightedChoice(
+    candidate.specifiers,
+    candidate.specifiers.map(spec => specifierWeight(candidate.pattern, spec)),
+    random
+  );
+  return { pattern: candidate.pattern, specifier: specifier as string }; // candidateWeight() ruled out all-zero specifiers
+}
+
+/**
+ * The chance of every pattern + specifier combination being picked by pickWeighted()
+ * Combinations with no chance are left out.
+ */
+export function selectionOdds(
+  candidates: SelectionCandidate[],
+  genreWeights: GenreWeights,
+  options: SelectionOptions = {}
+): SelectionOdds[] {
+  switch (options.strategy ?? DEFAULT_STRATEGY) {
+    case 'genre':
+      return genreOdds(candidates, genreWeights);
+    case 'term':
+      return termOdds(candidates, genreWeights);
+    case 'round-robin':
+      return roundRobinOdds(candidates, genreWeights, options.previousGenre ?? null);
+    default:
+      return patternOdds(candidates, genreWeights);
+  }
+}
+
+/**
+ * "12.5%", "0.031%", "< 0.001%"
+ */
+export function formatProbability(probability: number): string {
+  if (probability <= 0) return '0%';
+  const percent = probability * 100;
+  if (percent < 0.001) return '< 0.001%';
+  return `${percent < 1 ? percent.toPrecision(2) : percent.toFixed(percent < 10 ? 2 : 1)}%`;
+}
+
+// ============================================================================
+// PUBLIC API: SETTINGS STORAGE
+// ============================================================================
+
+/**
+ * Genre weights from localStorage ({} outside the browser or when unreadable)
+ */
+export function loadGenreWeights(): GenreWeights {
+  if (typeof localStorage === 'undefined') return {};
+
+  try {
+    const parsed = JSON.parse(localStorage.getItem(GENRE_WEIGHTS_KEY) || '{}');
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed : {};
+  } catch (error) {
+    console.warn('Could not read genre weights:', error);
+    return {};
+  }
+}
+
+/**
+ * Store genre weights in localStorage (default weights are left out)
+ */
+export function saveGenreWeights(weights: GenreWeights): void {
+  if (typeof localStorage === 'undefined') return;
+
+  const changed = Object.fromEntries(Object.entries(weights).filter(([, weight]) => weight !== DEFAULT_WEIGHT));
+  localStorage.setItem(GENRE_WEIGHTS_KEY, JSON.stringify(changed));
+}
+
+/**
+ * The saved selection strategy (the default outside the browser or when unknown)
+ */
+export function loadSelectionStrategy(): SelectionStrategy {
+  if (typeof localStorage === 'undefined') return DEFAULT_STRATEGY;
+
+  const stored = localStorage.getItem(STRATEGY_KEY);
+  return isSelectionStrategy(stored) ? stored : DEFAULT_STRATEGY;
+}
+
+export function saveSelectionStrategy(strategy: SelectionStrategy): void {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(STRATEGY_KEY, strategy);
+}
+
+export function isSelectionStrategy(value: unknown): value is SelectionStrategy {
+  return typeof value === 'string' && Object.keys(SELECTION_STRATEGY_LABELS).includes(value);
+}
+
+// ============================================================================
+// HELPER FUNCTIONS: STRATEGY ODDS
+// ============================================================================
+
+/**
+ * 'pattern': pattern by weight, then specifier by weight
+ */
+function patternOdds(candidates: SelectionCandidate[], genreWeights: GenreWeights): SelectionOdds[] {
+  const weights = candidates.map(c => candidateWeight(c, genreWeights));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total === 0) return [];
+
+  return candidates.flatMap((candidate, i) => {
+    const patternChance = weights[i] / total;
+    if (patternChance === 0) return [];
+
+    if (candidate.specifiers.length === 0) {
+      return [{ pattern: candidate.pattern, specifier: candidate.pattern.specifiers[0], probability: patternChance }];
+    }
+
+    const specWeights = candidate.specifiers.map(spec => specifierWeight(candidate.pattern, spec));
+    const specTotal = specWeights.reduce((sum, weight) => sum + weight, 0);
+
+    return candidate.specifiers
+      .map((specifier, j) => ({ pattern: candidate.pattern, specifier, probability: patternChance * specWeights[j] / specTotal }))
+      .filter(odds => odds.probability > 0);
+  });
+}
+
+/**
+ * 'genre': genre by its genre weight, then 'pattern' within it
+ */
+function genreOdds(candidates: SelectionCandidate[], genreWeights: GenreWeights): SelectionOdds[] {
+  const groups = [...groupByGenre(candidates)]
+    .map(([genre, group]) => ({ weight: usableWeight(genreWeights[genre]), odds: patternOdds(group, genreWeights) }))
+    .filter(group => group.odds.length > 0);
+  const total = groups.reduce((sum, group) => sum + group.weight, 0);
+  if (total === 0) return [];
+
+  return groups.flatMap(group =>
+    group.odds.map(entry => ({ ...entry, probability: entry.probability * group.weight / total }))
+  );
+}
+
+/**
+ * 'term': every name + specifier combination by pattern weight × specifier weight
+ */
+function termOdds(candidates: SelectionCandidate[], genreWeights: GenreWeights): SelectionOdds[] {
+  const combinations = candidates.flatMap(({ pattern, specifiers }) =>
+    specifiers.length === 0
+      ? [{ pattern, specifier: pattern.specifiers[0], weight: patternWeight(pattern, genreWeights) }]
+      : specifiers.map(specifier => ({ pattern, specifier, weight: patternWeight(pattern, genreWeights) * specifierWeight(pattern, specifier) }))
+  );
+  const total = combinations.reduce((sum, combination) => sum + combination.weight, 0);
+  if (total === 0) return [];
+
+  return combinations
+    .filter(combination => combination.weight > 0)
+    .map(({ pattern, specifier, weight }) => ({ pattern, specifier, probability: weight / total }));
+}
+
+/**
+ * 'round-robin': the next genre that can roll, then 'pattern' within it
+ * Genre weights only matter here in that a genre weighing 0 is skipped.
+ */
+function roundRobinOdds(candidates: SelectionCandidate[], genreWeights: GenreWeights, previousGenre: string | null): SelectionOdds[] {
+  const groups = [...groupByGenre(candidates)]
+    .map(([genre, group]) => ({ genre, odds: patternOdds(group, genreWeights) }))
+    .filter(group => group.odds.length > 0)
+    .sort((a, b) => a.genre.localeCompare(b.genre));
+  if (groups.length === 0) return [];
+
+  const next = previousGenre === null
+    ? groups[0]
+    : groups.find(group => group.genre.localeCompare(previousGenre) > 0) ?? groups[0];
+  return next.odds;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function groupByGenre(candidates: SelectionCandidate[]): Map<string, SelectionCandidate[]> {
+  const groups = new Map<string, SelectionCandidate[]>();
+  for (const candidate of candidates) {
+    groups.set(candidate.pattern.genre, [...(groups.get(candidate.pattern.genre) ?? []), candidate]);
+  }
+  return groups;
+}
+
+/**
+ * A candidate's pattern weight, or 0 when every one of its specifiers weighs 0
+ */
+function candidateWeight(candidate: SelectionCandidate, genreWeights: GenreWeights): number {
+  const canRoll = candidate.specifiers.length === 0 ||
+    candidate.specifiers.some(spec => specifierWeight(candidate.pattern, spec) > 0);
+  return canRoll ? patternWeight(candidate.pattern, genreWeights) : 0;
+}
+
+/**
+ * Missing weights count as 1; negative or non-numeric ones as 0
+ */
+function usableWeight(weight: number | undefined): number {
+  if (weight === undefined) return DEFAULT_WEIGHT;
+  return Number.isFinite(weight) && weight > 0 ? weight : 0;
+}
@@ -0,0 +1,416 @@
+/**
+ * Specifier Template - Tokenizer & Parser for Specifier Templates
+ *
+ * RESPONSIBILITIES:
+ * Turns a specifier template string into a list of tokens BEFORE anything is
+ * filled in, so placeholders can never collide with each other (the old chained
+ * regex replaces turned the MM in HHMMSS into a month) or with literal text.
+ *
+ * TWO SYNTAXES:
+ *  - braced: every placeholder is wrapped in braces and everything else is literal
+ *      {YYYY} {YY}             Year (4 / 2 digits)
+ *      {MM} or {MM:month}      Month (01-12)
+ *      {Month} {Mon}           Month name (January / Jan)
+ *      {DD}                    Day (01-31)
+ *      {HH}                    Hours (00-23)
+ *      {mm} or {MM:minute}     Minutes (00-59)
+ *      {SS} or {ss}            Seconds (00-59)
+ *      {X4} or {XXXX}          Random field, 4 characters wide
+ *      {X2:hex} {X1:letter}    Random field with an explicit kind (number/hex/letter)
+ *      {X3=serial}             Named field, so constraints can target it by name
+ *      {{ and }}               Literal braces
+ *  - legacy: the bare format used by search-terms.json ("YYYYMMDD", "XX.DAT", ...)
+ *      YYYY Month Mon MM DD HH mm SS and runs of X are placeholders.
+ *      MM right after an HH placeholder means minutes (so HHMMSS works).
+ *      A backslash makes the next character literal (e.g., "\X").
+ *
+ * Templates containing a "{" are read as braced, everything else as legacy,
+ * so the existing search-terms.json specifiers keep working unchanged.
+ *
+ * The range constraints that bound a field ("1-12", "00-F9", "A-F") are read
+ * here too (parseFieldRange()), so validation and rolls agree on them.
+ */
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type TemplateSyntax = 'braced' | 'legacy';
+
+export type DateTokenUnit =
+  | 'year'
+  | 'year-short'
+  | 'month'
+  | 'month-name'
+  | 'month-short'
+  | 'day'
+  | 'hour'
+  | 'minute'
+  | 'second';
+
+export type FieldKind = 'number' | 'hex' | 'letter';
+
+interface TokenBase {
+  source: string;   // The exact text this token was read from
+  position: number; // Offset of the token in the template
+}
+
+export interface LiteralToken extends TokenBase {
+  type: 'literal';
+  text: string;
+}
+
+export interface DateToken extends TokenBase {
+  type: 'date';
+  unit: DateTokenUnit;
+}
+
+export interface FieldToken extends TokenBase {
+  type: 'field';
+  index: number;      // 0-based position among the template's fields
+  width: number;      // Number of characters to generate
+  kind?: FieldKind;   // Explicit kind from the template (braced syntax only)
+  name?: string;      // Field name from the template (braced syntax only)
+}
+
+export type TemplateToken = LiteralToken | DateToken | FieldToken;
+
+export interface TemplateParseError {
+  message: string;
+  position: number;
+}
+
+export interface ParsedTemplate {
+  syntax: TemplateSyntax;
+  tokens: TemplateToken[];
+  fields: FieldToken[];
+  errors: TemplateParseError[];
+}
+
+// ============================================================================
+// TOKEN TABLES
+// ============================================================================
+
+// Braced placeholder names and the date unit they produce
+const BRACED_DATE_TOKENS: Record<string, DateTokenUnit> = {
+  YYYY: 'year',
+  YY: 'year-short',
+  MM: 'month',
+  Month: 'month-name',
+  Mon: 'month-short',
+  DD: 'day',
+  HH: 'hour',
+  mm: 'minute',
+  SS: 'second',
+  ss: 'second'
+};
+
+// Modifiers that may follow a date placeholder ({MM:minute})
+const DATE_MODIFIERS: Record<string, DateTokenUnit> = {
+  year: 'year',
+  month: 'month',
+  day: 'day',
+  hour: 'hour',
+  minute: 'minute',
+  second: 'second'
+};
+
+// Legacy placeholders, longest first so "Month" wins over "Mon" and "MM"
+const LEGACY_DATE_TOKENS: Array<[string, DateTokenUnit]> = [
+  ['YYYY', 'year'],
+  ['Month', 'month-name'],
+  ['Mon', 'month-short'],
+  ['MM', 'month'],
+  ['DD', 'day'],
+  ['HH', 'hour'],
+  ['mm', 'minute'],
+  ['SS', 'second']
+];
+
+const FIELD_KINDS: FieldKind[] = ['number', 'hex', 'letter'];
+
+// One end of a range constraint, per field kind
+const RANGE_BOUND_PATTERNS: Record<FieldKind, RegExp> = {
+  number: /^\d+$/,
+  hex: /^[0-9A-Fa-f]+$/,
+  letter: /^[A-Za-z]$/
+};
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Decide which syntax a template is written in
+ * Any "{" means braced; everything else is the legacy bare format.
+ */
+export function detectTemplateSyntax(template: string): TemplateSyntax {
+  return template.includes('{') ? 'braced' : 'legacy';
+}
+
+/**
+ * Parse a specifier template into tokens
+ *
+ * @param template - The specifier template (e.g., "{YYYY}-{MM}", "XXXX")
+ * @param syntax - Force a syntax, or 'auto' to detect it (default)
+ * @returns Tokens, the random fields among them, and any parse errors
+ */
+export function parseSpecifierTemplate(
+  template: string,
+  syntax: TemplateSyntax | 'auto' = 'auto'
+): ParsedTemplate {
+  const resolvedSyntax = syntax === 'auto' ? detectTemplateSyntax(template) : syntax;
+  const result = resolvedSyntax === 'braced' ? parseBraced(template) : parseLegacy(template);
+
+  return {
+    syntax: resolvedSyntax,
+    tokens: result.tokens,
+    fields: result.tokens.filter((token): token is FieldToken => token.type === 'field'),
+    errors: result.errors
+  };
+}
+
+/**
+ * Check a template and return its errors (empty when the template is valid)
+ */
+export function validateSpecifierTemplate(
+  template: string,
+  syntax: TemplateSyntax | 'auto' = 'auto'
+): TemplateParseError[] {
+  return parseSpecifierTemplate(template, syntax).errors;
+}
+
+/**
+ * Parse a range constraint value for one kind of field
+ * Format: "min-max" like "1000-9999" or "1-12"; hex ranges are read in
+ * base 16 ("00-F9") and letter ranges as letters in either case ("a-f" is "A-F")
+ * @returns The bounds (character codes of the uppercase letters for letter
+ *          ranges), or null when the value isn't a range of that kind
+ */
+export function parseFieldRange(value: string, kind: FieldKind = 'number'): { min: number; max: number } | null {
+  const parts = value.split('-');
+  if (parts.length !== 2 || !parts.every(part => RANGE_BOUND_PATTERNS[kind].test(part))) return null;
+
+  if (kind === 'letter') {
+    return { min: parts[0].toUpperCase().charCodeAt(0), max: parts[1].toUpperCase().charCodeAt(0) };
+  }
+
+  const radix = kind === 'hex' ? 16 : 10;
+  return { min: parseInt(parts[0], radix), max: parseInt(parts[1], radix) };
+}
+
+/**
+ * Whether a template fills in a year anywhere
+ */
+export function templateHasYear(template: string): boolean {
+  return parseSpecifierTemplate(template).tokens.some(
+    token => token.type === 'date' && (token.unit === 'year' || token.unit === 'year-short')
+  );
+}
+
+// ============================================================================
+// BRACED SYNTAX
+// ============================================================================
+
+function parseBraced(template: string): { tokens: TemplateToken[]; errors: TemplateParseError[] } {
+  const tokens: TemplateToken[] = [];
+  const errors: TemplateParseError[] = [];
+  let literal = '';
+  let literalStart = 0;
+  let fieldIndex = 0;
+  let i = 0;
+
+  const flushLiteral = () => {
+    if (literal) {
+      tokens.push({ type: 'literal', text: literal, source: literal, position: literalStart });
+      literal = '';
+    }
+  };
+
+  while (i < template.length) {
+    const char = template[i];
+
+    // Escaped braces
+    if ((char === '{' || char === '}') && template[i + 1] === char) {
+      if (!literal) literalStart = i;
+      literal += char;
+      i += 2;
+      continue;
+    }
+
+    if (char === '}') {
+      errors.push({ message: 'Unexpected "}" (write "}}" for a literal brace)', position: i });
+      if (!literal) literalStart = i;
+      literal += char;
+      i++;
+      continue;
+    }
+
+    if (char !== '{') {
+      if (!literal) literalStart = i;
+      literal += char;
+      i++;
+      continue;
+    }
+
+    // Placeholder: read up to the closing brace
+    const close = template.indexOf('}', i + 1);
+    if (close === -1) {
+      errors.push({ message: 'Unclosed "{" (write "{{" for a literal brace)', position: i });
+      if (!literal) literalStart = i;
+      literal += template.slice(i);
+      break;
+    }
+
+    flushLiteral();
+    const source = template.slice(i, close + 1);
+    const token = readBracedPlaceholder(template.slice(i + 1, close), source, i, fieldIndex, errors);
+    if (token.type === 'field') fieldIndex++;
+    tokens.push(token);
+    i = close + 1;
+  }
+
+  flushLiteral();
+  return { tokens, errors };
+}
+
+/**
+ * Turn the inside of one {...} into a token, recording an error (and falling
+ * back to a literal) when it isn't a placeholder we understand
+ */
+function readBracedPlaceholder(
+  body: string,
+  source: string,
+  position: number,
+  fieldIndex: number,
+  errors: TemplateParseError[]
+): TemplateToken {
+  const [placeholder, fieldName, ...extraNames] = body.split('=').map(part => part.trim());
+  const [name, modifier, ...rest] = placeholder.split(':').map(part => part.trim());
+  const fallback: LiteralToken = { type: 'literal', text: source, source, position };
+
+  if (rest.length > 0) {
+    errors.push({ message: `Too many ":" in ${source}`, position });
+    return fallback;
+  }
+
+  if (extraNames.length > 0) {
+    errors.push({ message: `Too many "=" in ${source}`, position });
+    return fallback;
+  }
+
+  // Random fields: {X4}, {XXXX}, {X2:hex}, {X3=serial}
+  const fieldMatch = name.match(/^X(\d+)$/) || name.match(/^(X+)$/);
+  if (fieldMatch) {
+    const width = /^\d+$/.test(fieldMatch[1]) ? parseInt(fieldMatch[1], 10) : fieldMatch[1].length;
+    if (width < 1) {
+      errors.push({ message: `Field width must be at least 1 in ${source}`, position });
+      return fallback;
+    }
+    if (modifier !== undefined && !FIELD_KINDS.includes(modifier as FieldKind)) {
+      errors.push({ message: `Unknown field kind "${modifier}" in ${source} (use ${FIELD_KINDS.join(', ')})`, position });
+      return fallback;
+    }
+    if (fieldName !== undefined && !/^[A-Za-z_][\w-]*$/.test(fieldName)) {
+      errors.push({ message: `Field name "${fieldName}" must start with a letter and use only letters, digits, "_" or "-"`, position });
+      return fallback;
+    }
+    return {
+      type: 'field',
+      index: fieldIndex,
+      width,
+      kind: modifier as FieldKind | undefined,
+      name: fieldName,
+      source,
+      position
+    };
+  }
+
+  if (fieldName !== undefined) {
+    errors.push({ message: `Only random (X) fields can be named, in ${source}`, position });
+    return fallback;
+  }
+
+  // Date/time placeholders: {YYYY}, {MM:minute}
+  const unit = BRACED_DATE_TOKENS[name];
+  if (!unit) {
+    errors.push({ message: `Unknown placeholder ${source}`, position });
+    return fallback;
+  }
+
+  if (modifier === undefined) {
+    return { type: 'date', unit, source, position };
+  }
+
+  const modifiedUnit = DATE_MODIFIERS[modifier];
+  const twoDigit = name === 'MM' || name === 'mm';
+  if (!modifiedUnit || (twoDigit ? modifiedUnit !== 'month' && modifiedUnit !== 'minute' : modifiedUnit !== unit)) {
+    errors.push({ message: `Modifier "${modifier}" doesn't apply to ${name} in ${source}`, position });
+    return fallback;
+  }
+
+  return { type: 'date', unit: modifiedUnit, source, position };
+}
+
+// ============================================================================
+// LEGACY SYNTAX
+// ============================================================================
+
+function parseLegacy(template: string): { tokens: TemplateToken[]; errors: TemplateParseError[] } {
+  const tokens: TemplateToken[] = [];
+  const errors: TemplateParseError[] = [];
+  let literal = '';
+  let literalStart = 0;
+  let fieldIndex = 0;
+  let lastDateUnit: DateTokenUnit | null = null;
+  let i = 0;
+
+  const flushLiteral = () => {
+    if (literal) {
+      tokens.push({ type: 'literal', text: literal, source: literal, position: literalStart });
+      literal = '';
+    }
+  };
+
+  scan: while (i < template.length) {
+    // Backslash escapes the next character
+    if (template[i] === '\\') {
+      if (i + 1 >= template.length) {
+        errors.push({ message: 'Trailing "\\" has nothing to escape', position: i });
+        break;
+      }
+      if (!literal) literalStart = i;
+      literal += template[i + 1];
+      i += 2;
+      continue;
+    }
+
+    // Runs of X are random fields
+    const fieldMatch = template.slice(i).match(/^X+/);
+    if (fieldMatch) {
+      flushLiteral();
+      tokens.push({ type: 'field', index: fieldIndex++, width: fieldMatch[0].length, source: fieldMatch[0], position: i });
+      i += fieldMatch[0].length;
+      continue;
+    }
+
+    for (const [text, unit] of LEGACY_DATE_TOKENS) {
+      if (template.startsWith(text, i)) {
+        flushLiteral();
+        // MM straight after an hour is minutes (HHMMSS, HH-MM-SS)
+        const resolvedUnit: DateTokenUnit = unit === 'month' && lastDateUnit === 'hour' ? 'minute' : unit;
+        tokens.push({ type: 'date', unit: resolvedUnit, source: text, position: i });
+        lastDateUnit = resolvedUnit;
+        i += text.length;
+        continue scan;
+      }
+    }
+
+    if (!literal) literalStart = i;
+    literal += template[i];
+    i++;
+  }
+
+  flushLiteral();
+  return { tokens, errors };
+}
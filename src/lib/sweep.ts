@@ -0,0 +1,256 @@
+/**
+ * Sweep - Walking a numbered specifier's values one by one instead of at random
+ *
+ * RESPONSIBILITIES:
+ * For counters like "100 XXXX" or "DSC XXXX" a sweep fills the random (X)
+ * fields with the next value of a walk through the whole space:
+ *  - sequential  0000, 0001, 0002, ... (the last field changes fastest)
+ *  - shuffled    Every value once, in an order fixed by the sweep's seed
+ * Each pattern + specifier template has its own cursor, kept in localStorage
+ * so a sweep continues after a reload.
+ *
+ * A roll reads the cursor (see roll.ts) but never moves it; the page moves
+ * it when the search is opened, so dry runs and reviews don't skip values.
+ * Templates with a date placeholder, or more than MAX_SWEEP_SIZE values,
+ * can't be swept.
+ */
+
+import type { SearchPattern } from './method-logic.js';
+import { createSeededRandom, generateSeed } from './rng.js';
+import { querySpaceSize, specifierValueAt, queryKey } from './query-space.js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type SweepOrder = 'sequential' | 'shuffled';
+
+/**
+ * Where one sweep is
+ */
+export interface SweepCursor {
+  order: SweepOrder;
+  position: number;       // Steps taken so far (the next roll uses this step)
+  seed: string;           // Fixes the shuffled order
+}
+
+/**
+ * Cursors keyed "pattern id|||template" (see queryKey() in query-space.ts)
+ */
+export type SweepCursors = Record<string, SweepCursor>;
+
+/**
+ * The value a roll takes from a sweep
+ */
+export interface SweepStep {
+  position: number;       // Step of the walk (advanceSweep() moves past it)
+  value: string;          // Filled specifier
+}
+
+interface FeistelKeys {
+  halfBits: number;       // Each half of the network's input has this many bits
+  rounds: number[];       // One key per round
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SWEEPS_KEY = 'specifierSweeps';
+
+// Larger spaces (e.g., 8 digits) would take longer than anyone will sweep
+export const MAX_SWEEP_SIZE = 10_000_000;
+
+const FEISTEL_ROUNDS = 4;
+
+// Round keys per "seed:size", so a sweep derives them once instead of on every step
+const feistelKeyCache = new Map<string, FeistelKeys>();
+
+export const SWEEP_ORDER_LABELS: Record<SweepOrder, string> = {
+  sequential: 'In order',
+  shuffled: 'Shuffled'
+};
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Whether a template has a finite space small enough to sweep
+ */
+export function canSweep(pattern: SearchPattern, specifier: string): boolean {
+  const size = querySpaceSize(pattern, specifier);
+  return size > 1 && size <= MAX_SWEEP_SIZE;
+}
+
+/**
+ * Start (or restart) a sweep from its first value
+ * @returns A copy of the cursors with the new sweep
+ */
+export function startSweep(
+  cursors: SweepCursors,
+  pattern: SearchPattern,
+  specifier: string,
+  order: SweepOrder,
+  seed: string = generateSeed()
+): SweepCursors {
+  return { ...cursors, [queryKey(pattern, specifier)]: { order, position: 0, seed } };
+}
+
+/**
+ * @returns A copy of the cursors without the sweep
+ */
+export function stopSweep(cursors: SweepCursors, key: string): SweepCursors {
+  return Object.fromEntries(Object.entries(cursors).filter(([existing]) => existing !== key));
+}
+
+/**
+ * Move a sweep past the step a search used
+ * Only the sweep the step came from moves, and never backwards, so replaying
+ * an old search doesn't rewind a sweep or push a restarted one forward.
+ * @param step - The cursor as the roll used it (see RolledSearch.sweep in roll.ts)
+ * @returns A copy of the cursors
+ */
+export function advanceSweep(cursors: SweepCursors, key: string, step: SweepCursor): SweepCursors {
+  const cursor = cursors[key];
+  if (!cursor || cursor.seed !== step.seed || cursor.order !== step.order) return cursors;
+  if (cursor.position > step.position) return cursors;
+  return { ...cursors, [key]: { ...cursor, position: step.position + 1 } };
+}
+
+/**
+ * The next value of a sweep
+ * @param used - Values to skip (already searched, in no-repeat mode)
+ * @returns The step, or null when the sweep went through every value
+ */
+export function nextSweepStep(
+  cursor: SweepCursor,
+  pattern: SearchPattern,
+  specifier: string,
+  used?: ReadonlySet<string>
+): SweepStep | null {
+  if (!canSweep(pattern, specifier)) return null;
+  const size = querySpaceSize(pattern, specifier);
+
+  for (let position = cursor.position; position < size; position++) {
+    const value = specifierValueAt(pattern, specifier, sweepIndex(cursor, position, size));
+    if (value !== null && !used?.has(value)) return { position, value };
+  }
+
+  return null;
+}
+
+/**
+ * Steps taken and the size of the space, e.g. for "37 of 10,000"
+ */
+export function sweepProgress(cursor: SweepCursor, pattern: SearchPattern, specifier: string): { done: number; total: number; finished: boolean } {
+  const total = querySpaceSize(pattern, specifier);
+  const done = Math.min(cursor.position, total);
+  return { done, total, finished: done >= total };
+}
+
+/**
+ * Sweep cursors from localStorage ({} outside the browser or when unreadable)
+ * Malformed cursors are dropped.
+ */
+export function loadSweeps(): SweepCursors {
+  if (typeof localStorage === 'undefined') return {};
+
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SWEEPS_KEY) || '{}');
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) return {};
+    return Object.fromEntries(Object.entries(parsed).filter(([, cursor]) => isSweepCursor(cursor))) as SweepCursors;
+  } catch (error) {
+    console.warn('Could not read sweep cursors:', error);
+    return {};
+  }
+}
+
+export function saveSweeps(cursors: SweepCursors): void {
+  if (typeof localStorage === 'undefined') return;
+
+  try {
+    localStorage.setItem(SWEEPS_KEY, JSON.stringify(cursors));
+  } catch (error) {
+    console.warn('Could not save sweep cursors:', error);
+  }
+}
+
+export function isSweepOrder(value: unknown): value is SweepOrder {
+  return typeof value === 'string' && Object.keys(SWEEP_ORDER_LABELS).includes(value);
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function isSweepCursor(value: unknown): value is SweepCursor {
+  if (typeof value !== 'object' || value === null) return false;
+  const { order, position, seed } = value as Record<string, unknown>;
+  return isSweepOrder(order) && Number.isInteger(position) && (position as number) >= 0 && typeof seed === 'string';
+}
+
+/**
+ * Which value of the space a step uses
+ * Shuffled sweeps run the step through a keyed permutation of the space
+ * (see shuffledIndex()), so every value comes up once without storing the order.
+ */
+function sweepIndex(cursor: SweepCursor, position: number, size: number): number {
+  return cursor.order === 'sequential' ? position : shuffledIndex(position, size, feistelKeys(cursor.seed, size));
+}
+
+/**
+ * The permutation of 0 .. size - 1 for one seed: a balanced Feistel network
+ * over the smallest even number of bits that holds `size`, cycle-walked
+ * (applied again) until the result is inside the space. The bit domain is
+ * less than 4 × size, so that takes a few rounds at most on average.
+ */
+function shuffledIndex(position: number, size: number, keys: FeistelKeys): number {
+  let index = position;
+  do {
+    index = feistel(index, keys);
+  } while (index >= size);
+  return index;
+}
+
+function feistel(value: number, { halfBits, rounds }: FeistelKeys): number {
+  const mask = (1 << halfBits) - 1;
+  let left = value >>> halfBits;
+  let right = value & mask;
+
+  for (const key of rounds) {
+    [left, right] = [right, left ^ (mix(right ^ key) & mask)];
+  }
+
+  return (left << halfBits) | right;
+}
+
+/**
+ * Round keys of a sweep, derived once per seed and space size
+ */
+function feistelKeys(seed: string, size: number): FeistelKeys {
+  const cacheKey = `${seed}:${size}`;
+  const cached = feistelKeyCache.get(cacheKey);
+  if (cached) return cached;
+
+  let halfBits = 1;
+  while (Math.pow(4, halfBits) < size) halfBits++;
+
+  const random = createSeededRandom(cacheKey);
+  const keys = {
+    halfBits,
+    rounds: Array.from({ length: FEISTEL_ROUNDS }, () => Math.floor(random() * 0x100000000) >>> 0)
+  };
+  feistelKeyCache.set(cacheKey, keys);
+  return keys;
+}
+
+/**
+ * 32-bit integer hash (the murmur3 finalizer)
+ */
+function mix(value: number): number {
+  let x = value >>> 0;
+  x = Math.imul(x ^ (x >>> 16), 0x85ebca6b);
+  x = Math.imul(x ^ (x >>> 13), 0xc2b2ae35);
+  return (x ^ (x >>> 16)) >>> 0;
+}
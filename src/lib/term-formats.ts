@@ -0,0 +1,449 @@
+/**
+ * Term Formats - CSV and plain-text import/export for search terms
+ *
+ * RESPONSIBILITIES:
+ * Most shared "method" lists are spreadsheets or one term per line, not our
+ * JSON. This module reads all three formats into a PREVIEW (one row per
+ * record, with the parsed pattern or the reasons it can't be used) so the
+ * user can check everything before it is written anywhere, and writes the
+ * user's terms back out as CSV or text.
+ *
+ * CSV:
+ *   One pattern per row. Columns are mapped to fields by a CSVColumnMapping
+ *   (guessed from the header row). Comma, semicolon and tab delimiters work.
+ *     specifiers   several templates separated by " | "   (XXXX | XX.DAT)
+ *     tags         tag paths separated by ","                (Device/Phone, Era/2000s)
+ *     age          new, old, or empty/any
+ *     weight       relative chance of being picked (empty = 1, see selection.ts)
+ *     exclude      words to leave out, separated by ","       (minecraft, lets play)
+ *     operators    extra query words, separated by ","        (vlog, intitle:clip)
+ *     constraints  type:value, or type:value@field, separated by ";"
+ *                  (date-before:2010; range:0000-1999@0)
+ *
+ * TEXT:
+ *   One term per line, e.g. "IMG_XXXX" or "DSC YYYYMMDD". The name is
+ *   everything before the first date placeholder or run of two or more X's,
+ *   the specifier is the rest ("IMG_" + "XXXX"). Braced templates split at the
+ *   first "{". Empty lines and lines starting with "#" are skipped.
+ */
+
+import type { Constraint, SearchPattern } from './method-logic.js';
+import { parseSpecifierTemplate, detectTemplateSyntax } from './specifier-template.js';
+import { parseTagList, formatTagList } from './term-tags.js';
+import { parseQueryTerms } from './search-settings.js';
+import {
+  migrateSearchTermsFile,
+  validateSearchPattern,
+  formatSchemaErrors,
+  TERM_SCHEMA_VERSION,
+  CONSTRAINT_TYPES
+} from './term-schema.js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type TermFileFormat = 'json' | 'csv' | 'text';
+
+export type CSVField = 'name' | 'specifiers' | 'genre' | 'tags' | 'age' | 'constraints' | 'weight' | 'exclude' | 'operators';
+
+/**
+ * Which column (0-based) holds each field; null = not in the file
+ */
+export type CSVColumnMapping = Record<CSVField, number | null>;
+
+export interface CSVRecord {
+  line: number;      // 1-based line the record starts on
+  cells: string[];
+}
+
+/**
+ * One record of an imported file, as it would be imported
+ */
+export interface TermImportRow {
+  line: number;                    // 1-based line in the file (JSON: index + 1)
+  source: string;                  // The raw record, for display
+  pattern: SearchPattern | null;   // Null when the record can't be used
+  errors: string[];                // Why it can't be used (schema errors etc.)
+  notes: string[];                 // How it was interpreted (inferred specifier, migration, ...)
+}
+
+export interface TermImportPreview {
+  format: TermFileFormat;
+  rows: TermImportRow[];
+  fileErrors: string[];            // Problems with the file as a whole
+  headers: string[];               // CSV header cells ([] for other formats)
+  mapping: CSVColumnMapping | null;  // CSV mapping used (null for other formats)
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const CSV_FIELDS: CSVField[] = ['name', 'specifiers', 'genre', 'tags', 'age', 'constraints', 'weight', 'exclude', 'operators'];
+
+// Header names recognized for each field (lowercase)
+const CSV_HEADER_ALIASES: Record<CSVField, string[]> = {
+  name: ['name', 'term', 'search term', 'prefix', 'filename'],
+  specifiers: ['specifiers', 'specifier', 'pattern', 'patterns', 'format', 'template'],
+  genre: ['genre', 'category', 'type'],
+  tags: ['tags', 'tag', 'labels'],
+  age: ['age'],
+  constraints: ['constraints', 'constraint'],
+  weight: ['weight', 'odds'],
+  exclude: ['exclude', 'excludes', 'exclude terms', 'negative keywords'],
+  operators: ['operators', 'operator', 'extra terms']
+};
+
+const SPECIFIER_SEPARATOR = ' | ';
+const CONSTRAINT_SEPARATOR = '; ';
+const DEFAULT_GENRE = 'Custom';
+
+// ============================================================================
+// PUBLIC API: PREVIEW
+// ============================================================================
+
+/**
+ * Guess a file's format from its name, falling back to its content
+ */
+export function detectTermFileFormat(fileName: string, content: string): TermFileFormat {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'json') return 'json';
+  if (extension === 'csv' || extension === 'tsv') return 'csv';
+  if (extension === 'txt') return 'text';
+
+  const trimmed = content.trimStart();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) return 'json';
+  return guessCSVColumnMapping(splitFirstLine(content)).name !== null ? 'csv' : 'text';
+}
+
+/**
+ * Parse an imported file into a preview, without writing anything
+ * @param content - File contents
+ * @param format - File format (see detectTermFileFormat)
+ * @param mapping - CSV column mapping (default: guessed from the header)
+ */
+export function previewTermImport(content: string, format: TermFileFormat, mapping?: CSVColumnMapping | null): TermImportPreview {
+  switch (format) {
+    case 'json':
+      return previewJSONTerms(content);
+    case 'csv':
+      return previewCSVTerms(content, mapping ?? null);
+    case 'text':
+      return previewTextTerms(content);
+  }
+}
+
+/**
+ * The patterns of a preview that can be imported
+ */
+export function importablePatterns(preview: TermImportPreview): SearchPattern[] {
+  return preview.rows.flatMap(row => (row.pattern ? [row.pattern] : []));
+}
+
+// ============================================================================
+// PUBLIC API: CSV
+// ============================================================================
+
+/**
+ * Split CSV text into records (RFC 4180: quoted cells may hold delimiters,
+ * newlines and "" for a quote)
+ * @param delimiter - Cell delimiter (default: guessed from the first line)
+ */
+export function parseCSV(text: string, delimiter: string = detectDelimiter(text)): CSVRecord[] {
+  const records: CSVRecord[] = [];
+  const source = text.replace(/^﻿/, '');
+
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0].trim() !== '') {
+      records.push({ line: recordLine, cells });
+    }
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === '') {
+      cell = '';
+      inQuotes = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || cells.length > 0) endRecord();
+  return records;
+}
+
+/**
+ * Guess which column holds which field from a header row
+ */
+export function guessCSVColumnMapping(headers: string[]): CSVColumnMapping {
+  const normalized = headers.map(header => header.trim().toLowerCase());
+  const mapping = {} as CSVColumnMapping;
+
+  for (const field of CSV_FIELDS) {
+    const index = normalized.findIndex(header => CSV_HEADER_ALIASES[field].includes(header));
+    mapping[field] = index >= 0 ? index : null;
+  }
+
+  return mapping;
+}
+
+/**
+ * Write patterns as CSV (header row + one row per pattern)
+ */
+export function termsToCSV(patterns: SearchPattern[]): string {
+  const rows = [
+    CSV_FIELDS,
+    ...patterns.map(pattern => [
+      pattern.name,
+      pattern.specifiers.join(SPECIFIER_SEPARATOR),
+      pattern.genre,
+      formatTagList(pattern.tags ?? []),
+      pattern.age,
+      pattern.constraints.map(formatConstraint).join(CONSTRAINT_SEPARATOR),
+      pattern.weight === undefined ? '' : String(pattern.weight),
+      (pattern.excludeTerms ?? []).join(', '),
+      (pattern.operators ?? []).join(', ')
+    ])
+  ];
+
+  return rows.map(row => row.map(escapeCSVCell).join(',')).join('\r\n') + '\r\n';
+}
+
+// ============================================================================
+// PUBLIC API: PLAIN TEXT
+// ============================================================================
+
+/**
+ * Split one line of a text list into name and specifier
+ * "IMG_XXXX" → { name: "IMG_", specifier: "XXXX" }; no placeholder → the whole line is the name
+ */
+export function inferPatternFromLine(line: string): { name: string; specifier: string } {
+  if (detectTemplateSyntax(line) === 'braced') {
+    const start = line.search(/\{(?!\{)/);
+    return start >= 0 ? { name: line.slice(0, start), specifier: line.slice(start) } : { name: line, specifier: '' };
+  }
+
+  // Single X's are usually letters of a word ("Xbox"), so only longer runs count
+  const placeholder = parseSpecifierTemplate(line, 'legacy').tokens.find(token =>
+    token.type === 'date' || (token.type === 'field' && token.width >= 2)
+  );
+
+  return placeholder
+    ? { name: line.slice(0, placeholder.position), specifier: line.slice(placeholder.position) }
+    : { name: line, specifier: '' };
+}
+
+/**
+ * Write patterns as a text list (one line per name + specifier)
+ */
+export function termsToText(patterns: SearchPattern[]): string {
+  const lines = patterns.flatMap(pattern =>
+    (pattern.specifiers.length > 0 ? pattern.specifiers : ['']).map(specifier => `${pattern.name}${specifier}`)
+  );
+  return [...new Set(lines)].filter(line => line.trim() !== '').join('\n') + '\n';
+}
+
+/**
+ * Write patterns as a versioned JSON file (term-schema.ts)
+ */
+export function termsToJSON(patterns: SearchPattern[]): string {
+  return JSON.stringify({ schemaVersion: TERM_SCHEMA_VERSION, patterns }, null, 2);
+}
+
+// ============================================================================
+// HELPER FUNCTIONS: PREVIEWS
+// ============================================================================
+
+function previewJSONTerms(content: string): TermImportPreview {
+  const preview: TermImportPreview = { format: 'json', rows: [], fileErrors: [], headers: [], mapping: null };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    preview.fileErrors.push('Invalid JSON format');
+    return preview;
+  }
+
+  const migration = migrateSearchTermsFile(parsed);
+  if (migration.data === null) {
+    preview.fileErrors.push(...formatSchemaErrors(migration.errors));
+    return preview;
+  }
+
+  preview.rows = migration.data.patterns.map((pattern, i) => {
+    const notes = migration.changes
+      .filter(change => change.startsWith(`patterns[${i}]: `))
+      .map(change => change.slice(`patterns[${i}]: `.length));
+    return checkedRow(i + 1, JSON.stringify(pattern), pattern, [], notes);
+  });
+  return preview;
+}
+
+function previewCSVTerms(content: string, mapping: CSVColumnMapping | null): TermImportPreview {
+  const records = parseCSV(content);
+  const headers = records[0]?.cells.map(cell => cell.trim()) ?? [];
+  const columns = mapping ?? guessCSVColumnMapping(headers);
+  const preview: TermImportPreview = { format: 'csv', rows: [], fileErrors: [], headers, mapping: columns };
+
+  if (records.length === 0) {
+    preview.fileErrors.push('The file is empty');
+    return preview;
+  }
+  if (columns.name === null && columns.specifiers === null) {
+    preview.fileErrors.push('Map a column to "name" or "specifiers" to import this file');
+    return preview;
+  }
+
+  preview.rows = records.slice(1).map(record => {
+    const cell = (field: CSVField) => {
+      const index = columns[field];
+      return index === null ? '' : (record.cells[index] ?? '').trim();
+    };
+
+    const errors: string[] = [];
+    const constraints = parseConstraintCell(cell('constraints'), errors);
+    const age = cell('age').toLowerCase();
+    const tags = parseTagList(cell('tags'));
+    const weight = cell('weight');
+    const excludeTerms = parseQueryTerms(cell('exclude'));
+    const operators = parseQueryTerms(cell('operators'));
+
+    const pattern: SearchPattern = {
+      name: columns.name === null ? '' : (record.cells[columns.name] ?? ''), // Names are space sensitive
+      specifiers: splitSpecifiers(cell('specifiers')),
+      genre: cell('genre') || DEFAULT_GENRE,
+      ...(tags.length > 0 ? { tags } : {}),
+      age: (age === 'any' ? '' : age) as SearchPattern['age'],
+      constraints,
+      ...(weight !== '' ? { weight: Number(weight) } : {}),
+      ...(excludeTerms.length > 0 ? { excludeTerms } : {}),
+      ...(operators.length > 0 ? { operators } : {})
+    };
+
+    return checkedRow(record.line, record.cells.join(', '), pattern, errors, []);
+  });
+  return preview;
+}
+
+function previewTextTerms(content: string): TermImportPreview {
+  const preview: TermImportPreview = { format: 'text', rows: [], fileErrors: [], headers: [], mapping: null };
+
+  content.replace(/^﻿/, '').split(/\r?\n/).forEach((rawLine, i) => {
+    const line = rawLine.trim();
+    if (line === '' || line.startsWith('#')) return;
+
+    const { name, specifier } = inferPatternFromLine(line);
+    const pattern = { name, specifiers: [specifier], genre: DEFAULT_GENRE, age: '' as const, constraints: [] };
+    const notes = specifier
+      ? [`Name "${name}", specifier "${specifier}"`]
+      : ['No placeholders found; the whole line is the name'];
+
+    preview.rows.push(checkedRow(i + 1, line, pattern, [], notes));
+  });
+
+  if (preview.rows.length === 0) preview.fileErrors.push('The file has no terms');
+  return preview;
+}
+
+/**
+ * Validate a parsed pattern and build its preview row
+ */
+function checkedRow(line: number, source: string, pattern: SearchPattern, errors: string[], notes: string[]): TermImportRow {
+  const allErrors = [...errors, ...formatSchemaErrors(validateSearchPattern(pattern))];
+  return { line, source, pattern: allErrors.length === 0 ? pattern : null, errors: allErrors, notes };
+}
+
+// ============================================================================
+// HELPER FUNCTIONS: CELLS
+// ============================================================================
+
+function splitSpecifiers(cell: string): string[] {
+  if (cell === '') return [''];
+  return cell.split('|').map(specifier => specifier.trim());
+}
+
+/**
+ * Read "type:value@field; type:value" into constraints (bad entries go to errors)
+ * Values and fields are checked later, with the whole pattern (validateSearchPattern()
+ * knows the specifiers' fields).
+ */
+function parseConstraintCell(cell: string, errors: string[]): Constraint[] {
+  const constraints: Constraint[] = [];
+
+  for (const entry of cell.split(';').map(part => part.trim()).filter(part => part !== '')) {
+    const match = entry.match(/^([a-z-]+)\s*:\s*(.+?)(?:@(.+))?$/);
+    if (!match) {
+      errors.push(`constraints: "${entry}" should look like type:value or type:value@field`);
+      continue;
+    }
+
+    const [, type, value, field] = match;
+    const knownType = CONSTRAINT_TYPES.find(known => known === type);
+    if (!knownType) {
+      errors.push(`constraints: "${type}" in "${entry}" is not a constraint type (${CONSTRAINT_TYPES.join(', ')})`);
+      continue;
+    }
+
+    const constraint: Constraint = { type: knownType, value: value.trim() };
+    if (field !== undefined) {
+      const name = field.trim();
+      constraint.field = /^\d+$/.test(name) ? parseInt(name, 10) : name;
+    }
+    constraints.push(constraint);
+  }
+
+  return constraints;
+}
+
+function formatConstraint(constraint: Constraint): string {
+  const field = constraint.field !== undefined ? `@${constraint.field}` : '';
+  return `${constraint.type}:${constraint.value}${field}`;
+}
+
+function escapeCSVCell(value: string): string {
+  return /[",\r\n]/.test(value) || value !== value.trim() ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Use whichever of comma, semicolon or tab appears most in the first line
+ */
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const count = (delimiter: string) => firstLine.split(delimiter).length - 1;
+  return [',', ';', '\t'].reduce((best, delimiter) => (count(delimiter) > count(best) ? delimiter : best), ',');
+}
+
+function splitFirstLine(content: string): string[] {
+  return parseCSV(content.split(/\r?\n/, 1)[0] ?? '')[0]?.cells ?? [];
+}
@@ -0,0 +1,311 @@
+/**
+ * Term Lint - Checks search patterns for mistakes the schema can't see
+ *
+ * RESPONSIBILITIES:
+ * The schema (term-schema.ts) only says whether a pattern CAN be used. The
+ * linter also looks at whether it does what its author meant:
+ *  - schema          Anything validateSearchPattern() rejects
+ *  - template-token  Specifier placeholders fillSpecifierTemplate() can't fill
+ *  - range-width     Range digits don't match the field's X count ("000-100" on XXXX)
+ *  - range-overflow  Range maximum doesn't fit in the field ("0-999" on XX)
+ *  - hex-digits      hex-range without A-F digits ("00-99" is 0-153, not 0-99)
+ *  - unused-constraint  Range constraint that no field of any specifier uses
+ *  - unused-weight   specifierWeights entry for a specifier the pattern doesn't have
+ *  - duplicate-term  Same name + specifier in more than one place
+ *  - genre-overlap   Genres that contain each other ("Cam" / "Webcam") but aren't nested as tags
+ *
+ * Every issue has a severity and, where there's an obvious one, a suggested fix.
+ * Used by scripts/lint-terms.js (npm run lint:terms) and the import preview.
+ */
+
+import type { Constraint, SearchPattern } from './method-logic.js';
+import { resolveSpecifierFields, type ResolvedField } from './search-settings.js';
+import { migrateSearchTermsFile, validateSearchPattern, formatSchemaErrors } from './term-schema.js';
+import { genreTag, tagIsWithin } from './term-tags.js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export type LintRule =
+  | 'schema'
+  | 'template-token'
+  | 'range-width'
+  | 'range-overflow'
+  | 'hex-digits'
+  | 'unused-constraint'
+  | 'unused-weight'
+  | 'duplicate-term'
+  | 'genre-overlap';
+
+export interface LintIssue {
+  rule: LintRule;
+  severity: LintSeverity;
+  index: number | null;   // Pattern the issue is about (null = the list as a whole)
+  path: string;           // e.g. "patterns[3].constraints[0]"
+  message: string;
+  fix?: string;           // Suggested fix, when there's an obvious one
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const RANGE_TYPES: Constraint['type'][] = ['range', 'hex-range', 'letter-range'];
+
+const SEVERITY_ORDER: LintSeverity[] = ['error', 'warning', 'info'];
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Lint a list of patterns (already in the current schema)
+ * @param patterns - The patterns to check
+ * @returns Every issue found, errors first
+ */
+export function lintSearchPatterns(patterns: SearchPattern[]): LintIssue[] {
+  const issues: LintIssue[] = [];
+
+  patterns.forEach((pattern, index) => {
+    const path = `patterns[${index}]`;
+    const schemaErrors = validateSearchPattern(pattern, path);
+
+    for (const error of schemaErrors) {
+      const isTemplate = error.path.startsWith(`${path}.specifiers[`);
+      issues.push({
+        rule: isTemplate ? 'template-token' : 'schema',
+        severity: 'error',
+        index,
+        path: error.path,
+        message: error.message
+      });
+    }
+
+    // The range checks below need a pattern the schema accepts
+    if (schemaErrors.length === 0) {
+      issues.push(...lintConstraints(pattern, index, path));
+      issues.push(...lintSpecifierWeights(pattern, index, path));
+    }
+  });
+
+  issues.push(...findDuplicateTerms(patterns));
+  issues.push(...findGenreOverlaps(patterns));
+
+  return issues.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+}
+
+/**
+ * Lint a search-terms file or pack (any schema version)
+ * @param value - Parsed JSON of the file
+ */
+export function lintSearchTermsFile(value: unknown): LintIssue[] {
+  const migration = migrateSearchTermsFile(value);
+  if (migration.data === null) {
+    return formatSchemaErrors(migration.errors).map(message => ({
+      rule: 'schema' as const,
+      severity: 'error' as const,
+      index: null,
+      path: '(file)',
+      message
+    }));
+  }
+
+  return lintSearchPatterns(migration.data.patterns);
+}
+
+/**
+ * Number of issues of each severity
+ */
+export function countLintIssues(issues: LintIssue[]): Record<LintSeverity, number> {
+  const counts: Record<LintSeverity, number> = { error: 0, warning: 0, info: 0 };
+  issues.forEach(issue => counts[issue.severity]++);
+  return counts;
+}
+
+/**
+ * One line per issue, e.g. "warning patterns[3].constraints[0] [range-width] ... → fix"
+ */
+export function formatLintIssue(issue: LintIssue): string {
+  const fix = issue.fix ? ` → ${issue.fix}` : '';
+  return `${issue.severity} ${issue.path} [${issue.rule}] ${issue.message}${fix}`;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS: CONSTRAINTS
+// ============================================================================
+
+/**
+ * Check each range-style constraint against the fields it ends up governing
+ */
+function lintConstraints(pattern: SearchPattern, index: number, path: string): LintIssue[] {
+  const issues: LintIssue[] = [];
+
+  // Which fields each constraint governs, over all specifiers (see resolveSpecifierFields)
+  const governed = new Map<Constraint, ResolvedField[]>();
+  for (const specifier of pattern.specifiers) {
+    for (const field of resolveSpecifierFields(specifier, pattern)) {
+      if (field.constraint) {
+        governed.set(field.constraint, [...(governed.get(field.constraint) ?? []), field]);
+      }
+    }
+  }
+
+  pattern.constraints.forEach((constraint, i) => {
+    if (!RANGE_TYPES.includes(constraint.type)) return;
+
+    const at = `${path}.constraints[${i}]`;
+    const issue = (rule: LintRule, severity: LintSeverity, message: string, fix?: string) =>
+      issues.push({ rule, severity, index, path: at, message, fix });
+    const value = String(constraint.value);
+
+    if (constraint.type === 'hex-range' && !/[A-Fa-f]/.test(value)) {
+      const [min, max] = value.split('-').map(part => parseInt(part, 16));
+      issue('hex-digits', 'info',
+        `hex-range "${value}" has no A-F digits, so it covers ${min}-${max} in decimal`,
+        'Use a "range" constraint if decimal numbers were meant');
+    }
+
+    const fields = governed.get(constraint) ?? [];
+    if (fields.length === 0) {
+      issue('unused-constraint', 'warning', unusedReason(pattern, constraint),
+        constraint.field !== undefined ? 'Point "field" at an existing field, or remove the constraint' : 'Remove the constraint, or add X placeholders it can apply to');
+      return;
+    }
+
+    if (constraint.type === 'letter-range') return; // One letter per X, so there is no width to get wrong
+
+    const parts = value.split('-');
+    for (const width of new Set(fields.map(field => field.width))) {
+      const radix = constraint.type === 'hex-range' ? 16 : 10;
+      const capacity = Math.pow(radix, width) - 1;
+      const max = parseInt(parts[1], radix);
+
+      if (max > capacity) {
+        issue('range-overflow', 'error',
+          `Maximum ${parts[1]} doesn't fit in a ${width}-character field (largest is ${capacity.toString(radix).toUpperCase()})`,
+          `Use "${padRange(parts, radix, width, capacity)}" or add X's to the specifier`);
+      } else if (parts.some(part => part.length !== width)) {
+        const digits = [...new Set(parts.map(part => part.length))].join(' and ');
+        issue('range-width', 'warning',
+          `"${value}" has ${digits} digits, but the field has ${width} X's`,
+          `Use "${padRange(parts, radix, width, capacity)}"`);
+      }
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Specifier weights (selection.ts) only apply to the pattern's own specifiers
+ */
+function lintSpecifierWeights(pattern: SearchPattern, index: number, path: string): LintIssue[] {
+  return Object.keys(pattern.specifierWeights ?? {})
+    .filter(specifier => !pattern.specifiers.includes(specifier))
+    .map(specifier => ({
+      rule: 'unused-weight' as const,
+      severity: 'warning' as const,
+      index,
+      path: `${path}.specifierWeights[${JSON.stringify(specifier)}]`,
+      message: `Weight for "${specifier}", which isn't one of the pattern's specifiers`,
+      fix: 'Rename it to match a specifier, or remove it'
+    }));
+}
+
+/**
+ * Why a range constraint governs no field
+ */
+function unusedReason(pattern: SearchPattern, constraint: Constraint): string {
+  const hasFields = pattern.specifiers.some(specifier => resolveSpecifierFields(specifier, pattern).length > 0);
+  if (!hasFields) {
+    return `${constraint.type} "${constraint.value}" has no effect: no specifier has X placeholders`;
+  }
+  if (constraint.field !== undefined) {
+    return `${constraint.type} "${constraint.value}" targets field ${JSON.stringify(constraint.field)}, which no specifier uses (or whose kind doesn't match)`;
+  }
+  return `${constraint.type} "${constraint.value}" has no effect: a later or field-specific constraint wins on every field`;
+}
+
+/**
+ * "000-100" on a 4-character field → "0000-0100"
+ */
+function padRange(parts: string[], radix: number, width: number, capacity: number): string {
+  return parts
+    .map(part => Math.min(parseInt(part, radix), capacity).toString(radix).toUpperCase().padStart(width, '0'))
+    .join('-');
+}
+
+// ============================================================================
+// HELPER FUNCTIONS: WHOLE LIST
+// ============================================================================
+
+/**
+ * Name + specifier pairs that appear more than once
+ */
+function findDuplicateTerms(patterns: SearchPattern[]): LintIssue[] {
+  const seen = new Map<string, number>();
+  const issues: LintIssue[] = [];
+
+  patterns.forEach((pattern, index) => {
+    if (typeof pattern?.name !== 'string' || !Array.isArray(pattern.specifiers)) return;
+
+    pattern.specifiers.forEach((specifier, i) => {
+      const key = `${pattern.name}\u0000${specifier}`;
+      const first = seen.get(key);
+      if (first === undefined) {
+        seen.set(key, index);
+        return;
+      }
+
+      issues.push({
+        rule: 'duplicate-term',
+        severity: 'warning',
+        index,
+        path: `patterns[${index}].specifiers[${i}]`,
+        message: `"${pattern.name}" + "${specifier}" is already in ${first === index ? 'this pattern' : `patterns[${first}]`}`,
+        fix: first === index ? 'Remove the repeated specifier' : `Merge into patterns[${first}] (and combine their constraints)`
+      });
+    });
+  });
+
+  return issues;
+}
+
+/**
+ * Genres whose names contain each other, case-insensitively ("Cam" in "Webcam" and "Body Cam")
+ */
+function findGenreOverlaps(patterns: SearchPattern[]): LintIssue[] {
+  const counts = new Map<string, number>();
+  patterns.forEach(pattern => {
+    if (typeof pattern?.genre === 'string' && pattern.genre.trim()) {
+      counts.set(pattern.genre, (counts.get(pattern.genre) ?? 0) + 1);
+    }
+  });
+
+  const genres = [...counts.keys()].sort((a, b) => a.length - b.length);
+  const issues: LintIssue[] = [];
+
+  for (const genre of genres) {
+    // Genres already nested in the tag tree (iPhone under Phone) are fine
+    const overlapping = genres.filter(other =>
+      other !== genre && other.length > genre.length && other.toLowerCase().includes(genre.toLowerCase()) &&
+      !tagIsWithin(genreTag(other), genreTag(genre))
+    );
+    if (overlapping.length === 0) continue;
+
+    const list = overlapping.map(other => `"${other}" (${counts.get(other)})`).join(', ');
+    issues.push({
+      rule: 'genre-overlap',
+      severity: 'info',
+      index: null,
+      path: 'genre',
+      message: `"${genre}" (${counts.get(genre)}) overlaps with ${list}`,
+      fix: `Merge them into "${genre}", or nest them under it (GENRE_TAGS in term-tags.ts)`
+    });
+  }
+
+  return issues;
+}
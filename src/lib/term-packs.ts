@@ -0,0 +1,305 @@
+/**
+ * Term Packs - Named, toggleable bundles of search patterns
+ *
+ * RESPONSIBILITIES:
+ * A term pack is a themed list of patterns (dashcams, 2000s feature phones,
+ * foreign camera brands, ...) with metadata about who made it. Packs are
+ * installed from JSON files, stored in localStorage and enabled or disabled
+ * one by one. buildTermPool() combines the built-in list, the enabled packs
+ * and the user's custom terms, and tags every pattern with where it came from
+ * and a stable id.
+ *
+ * PATTERN IDS:
+ * Several patterns share a name (the built-in list has four named "" and two
+ * "MOL0"), so ratings, no-repeat history and sweeps key patterns by id:
+ *   custom:<term id>                  Custom terms (their repository id)
+ *   built-in:<hash>, pack:<id>:<hash> A hash of name, specifiers, genre and constraints
+ * Identical patterns in one source get "#2", "#3", ... appended.
+ *
+ * PACK FILE FORMAT:
+ * A search-terms file (term-schema.ts) with a "pack" object:
+ *   {
+ *     "schemaVersion": 2,
+ *     "pack": { "id": "dashcams", "name": "Dashcams", "author": "...", "version": "1.0.0",
+ *               "description": "...", "license": "CC0-1.0" },
+ *     "patterns": [ ... ]
+ *   }
+ * Only "pack.name" is required; the id defaults to a slug of the name. Older
+ * pattern formats are migrated the same way as imports.
+ */
+
+import type { PatternSource, SearchPattern } from './method-logic.js';
+import { hashSeed } from './rng.js';
+import {
+  migrateSearchTermsFile,
+  validateSearchPattern,
+  type SchemaError
+} from './term-schema.js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface TermPackMetadata {
+  id: string;
+  name: string;
+  author: string;
+  version: string;
+  description: string;
+  license: string;
+}
+
+export interface TermPack {
+  metadata: TermPackMetadata;
+  patterns: SearchPattern[];
+}
+
+export interface InstalledTermPack extends TermPack {
+  enabled: boolean;
+  installedAt: string;   // ISO timestamp
+}
+
+export interface ParsedTermPack {
+  pack: TermPack | null;  // Null when the file isn't a usable pack
+  errors: SchemaError[];  // Problems found (invalid patterns are left out of the pack)
+  changes: string[];      // What migrating older patterns changed
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const STORAGE_KEY = 'termPacks';
+
+export const BUILT_IN_SOURCE: PatternSource = { kind: 'built-in', id: 'built-in', name: 'Built-in list' };
+export const CUSTOM_SOURCE: PatternSource = { kind: 'custom', id: 'custom', name: 'Custom terms' };
+
+const METADATA_FIELDS: (keyof TermPackMetadata)[] = ['id', 'name', 'author', 'version', 'description', 'license'];
+
+// ============================================================================
+// PUBLIC API: PARSING
+// ============================================================================
+
+/**
+ * Read a pack file
+ * @param value - Parsed JSON of the file
+ * @returns The pack (valid patterns only), every problem found and the migration notes
+ */
+export function parseTermPack(value: unknown): ParsedTermPack {
+  const raw = typeof value === 'object' && value !== null ? (value as Record<string, unknown>).pack : undefined;
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { pack: null, errors: [{ path: 'pack', message: 'Expected a "pack" object with at least a name' }], changes: [] };
+  }
+
+  const errors: SchemaError[] = [];
+  const fields = raw as Record<string, unknown>;
+
+  for (const field of METADATA_FIELDS) {
+    if (fields[field] !== undefined && typeof fields[field] !== 'string') {
+      errors.push({ path: `pack.${field}`, message: 'Expected a string' });
+    }
+  }
+
+  const name = typeof fields.name === 'string' ? fields.name.trim() : '';
+  if (!name) {
+    errors.push({ path: 'pack.name', message: 'A pack needs a name' });
+  }
+
+  const id = typeof fields.id === 'string' && fields.id.trim() ? fields.id.trim() : slugify(name);
+  if (name && !id) {
+    errors.push({ path: 'pack.id', message: 'Could not derive an id from the name; add an "id"' });
+  }
+  if (id === BUILT_IN_SOURCE.id || id === CUSTOM_SOURCE.id) {
+    errors.push({ path: 'pack.id', message: `"${id}" is reserved` });
+  }
+
+  const migration = migrateSearchTermsFile(value);
+  if (migration.data === null) {
+    return { pack: null, errors: [...errors, ...migration.errors], changes: [] };
+  }
+
+  if (errors.length > 0) {
+    return { pack: null, errors, changes: migration.changes };
+  }
+
+  const patterns: SearchPattern[] = [];
+  migration.data.patterns.forEach((pattern, i) => {
+    const patternErrors = validateSearchPattern(pattern, `patterns[${i}]`);
+    if (patternErrors.length === 0) {
+      patterns.push(pattern);
+    } else {
+      errors.push(...patternErrors);
+    }
+  });
+
+  if (patterns.length === 0) {
+    errors.push({ path: 'patterns', message: 'The pack has no valid patterns' });
+    return { pack: null, errors, changes: migration.changes };
+  }
+
+  const text = (field: keyof TermPackMetadata) => (typeof fields[field] === 'string' ? (fields[field] as string).trim() : '');
+
+  return {
+    pack: {
+      metadata: {
+        id,
+        name,
+        author: text('author'),
+        version: text('version'),
+        description: text('description'),
+        license: text('license')
+      },
+      patterns
+    },
+    errors,
+    changes: migration.changes
+  };
+}
+
+// ============================================================================
+// PUBLIC API: INSTALLED PACKS
+// ============================================================================
+
+/**
+ * Installed packs from localStorage ([] outside the browser or when unreadable)
+ */
+export function loadInstalledPacks(): InstalledTermPack[] {
+  if (typeof localStorage === 'undefined') return [];
+
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.warn('Could not read installed term packs:', error);
+    return [];
+  }
+}
+
+/**
+ * Store the installed packs in localStorage
+ * @returns False when they couldn't be stored (e.g., storage is full)
+ */
+export function saveInstalledPacks(packs: InstalledTermPack[]): boolean {
+  if (typeof localStorage === 'undefined') return false;
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(packs));
+    return true;
+  } catch (error) {
+    console.warn('Could not save installed term packs:', error);
+    return false;
+  }
+}
+
+/**
+ * Add a pack (enabled), or replace the installed pack with the same id
+ * A replaced pack keeps its enabled state and its place in the list.
+ */
+export function installTermPack(packs: InstalledTermPack[], pack: TermPack): InstalledTermPack[] {
+  const existing = packs.find(installed => installed.metadata.id === pack.metadata.id);
+  const installed: InstalledTermPack = {
+    ...pack,
+    enabled: existing?.enabled ?? true,
+    installedAt: new Date().toISOString()
+  };
+
+  return existing
+    ? packs.map(other => (other === existing ? installed : other))
+    : [...packs, installed];
+}
+
+export function setTermPackEnabled(packs: InstalledTermPack[], id: string, enabled: boolean): InstalledTermPack[] {
+  return packs.map(pack => (pack.metadata.id === id ? { ...pack, enabled } : pack));
+}
+
+export function removeTermPack(packs: InstalledTermPack[], id: string): InstalledTermPack[] {
+  return packs.filter(pack => pack.metadata.id !== id);
+}
+
+// ============================================================================
+// PUBLIC API: TERM POOL
+// ============================================================================
+
+/**
+ * Every pattern the app can pick from, tagged with its source
+ *
+ * @param builtIn - The built-in list (loadAllSearchTerms())
+ * @param packs - Installed packs; only enabled ones are included
+ * @param customTerms - The user's own terms ([] when custom terms are turned off)
+ */
+export function buildTermPool(
+  builtIn: SearchPattern[],
+  packs: InstalledTermPack[],
+  customTerms: SearchPattern[] = []
+): SearchPattern[] {
+  const tag = (patterns: SearchPattern[], source: PatternSource) => {
+    const seen = new Map<string, number>();
+    return patterns.map(pattern => {
+      const id = createPatternId(pattern, source);
+      const count = (seen.get(id) ?? 0) + 1;
+      seen.set(id, count);
+      return { ...pattern, source, patternId: count > 1 ? `${id}#${count}` : id };
+    });
+  };
+
+  return [
+    ...tag(builtIn, BUILT_IN_SOURCE),
+    ...packs.filter(pack => pack.enabled).flatMap(pack => tag(pack.patterns, packSource(pack.metadata))),
+    ...tag(customTerms, CUSTOM_SOURCE)
+  ];
+}
+
+/**
+ * The id buildTermPool() gives a pattern (before telling identical patterns apart)
+ */
+export function createPatternId(pattern: SearchPattern, source: PatternSource): string {
+  const termId = (pattern as SearchPattern & { id?: unknown }).id;
+  if (source.kind === 'custom' && typeof termId === 'string') return `custom:${termId}`;
+
+  const content = JSON.stringify([pattern.name, pattern.specifiers, pattern.genre, pattern.constraints]);
+  const prefix = source.kind === 'pack' ? `pack:${source.id}` : source.kind;
+  return `${prefix}:${hashSeed(content).toString(36)}`;
+}
+
+/**
+ * Key of a pattern for ratings, no-repeat history and sweeps: its pool id
+ * Patterns recorded before they had one get the id they would have now;
+ * patterns outside the pool (e.g., the term builder's preview) fall back to their name.
+ */
+export function patternKey(pattern: SearchPattern): string {
+  if (pattern.patternId) return pattern.patternId;
+  return pattern.source ? createPatternId(pattern, pattern.source) : `name:${pattern.name}`;
+}
+
+/**
+ * One line about where a pattern came from, e.g. "Dashcams v1.2 by Sam (CC0-1.0)"
+ */
+export function describePatternSource(source: PatternSource): string {
+  let description = source.name;
+  if (source.version) description += ` v${source.version}`;
+  if (source.author) description += ` by ${source.author}`;
+  if (source.license) description += ` (${source.license})`;
+  return description;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function packSource(metadata: TermPackMetadata): PatternSource {
+  return {
+    kind: 'pack',
+    id: metadata.id,
+    name: metadata.name,
+    version: metadata.version || undefined,
+    author: metadata.author || undefined,
+    license: metadata.license || undefined
+  };
+}
+
+/**
+ * "2000s Feature Phones" → "2000s-feature-phones"
+ */
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
@@ -0,0 +1,374 @@
+/**
+ * Term Repository - Persistent storage for the user's own search terms
+ *
+ * RESPONSIBILITIES:
+ * Owns the custom search terms that users create, import and delete. Every
+ * term gets a stable id, so edits and deletes no longer depend on array
+ * positions. Changes are written through to a storage backend:
+ *  1. IndexedDB (database "the-method", store "searchTerms") when available
+ *  2. localStorage (key "searchTermRepository") as a fallback
+ *  3. Memory only (no persistence) outside the browser
+ *
+ * The repository keeps an in-memory copy of all terms, so list() is
+ * synchronous once load() has resolved. subscribe() follows the Svelte store
+ * contract: listeners get the current list right away and after every change.
+ *
+ * MIGRATION:
+ * Terms saved by older versions under the "customSearchTerms" localStorage key
+ * are moved into the repository (with fresh ids) on the first load. Stored
+ * terms in an older schema (term-schema.ts) are upgraded and written back.
+ */
+
+import type { SearchPattern } from './method-logic.js';
+import { migrateSearchPattern, TERM_SCHEMA_VERSION } from './term-schema.js';
+import { openAppDatabase, runStoreRequest, TERMS_STORE } from './app-database.js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * A search term as stored in the repository
+ */
+export type StoredSearchTerm = SearchPattern & {
+  id: string;
+  createdAt: string;   // ISO timestamp
+  updatedAt: string;   // ISO timestamp
+};
+
+export type TermChangeType = 'add' | 'update' | 'delete' | 'replace' | 'load';
+
+export type TermListener = (terms: StoredSearchTerm[], change: TermChangeType) => void;
+
+/**
+ * Where the repository keeps its terms
+ */
+export interface TermStorage {
+  kind: 'indexeddb' | 'localstorage' | 'memory';
+  getAll(): Promise<StoredSearchTerm[]>;
+  put(term: StoredSearchTerm): Promise<void>;
+  delete(id: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface TermRepository {
+  load(): Promise<StoredSearchTerm[]>;
+  list(): StoredSearchTerm[];
+  get(id: string): StoredSearchTerm | null;
+  add(pattern: SearchPattern): Promise<StoredSearchTerm>;
+  update(id: string, changes: Partial<SearchPattern>): Promise<StoredSearchTerm | null>;
+  remove(id: string): Promise<boolean>;
+  replaceAll(patterns: SearchPattern[]): Promise<StoredSearchTerm[]>;
+  clear(): Promise<void>;
+  subscribe(listener: TermListener): () => void;
+  storageKind(): TermStorage['kind'] | null;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const LOCAL_STORAGE_KEY = 'searchTermRepository';
+
+// Where versions before the repository kept custom terms (array, keyed by index)
+export const LEGACY_STORAGE_KEY = 'customSearchTerms';
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Create a repository
+ * @param storage - Backend to use (default: IndexedDB, falling back to localStorage, then memory)
+ */
+export function createTermRepository(storage?: TermStorage): TermRepository {
+  let terms: StoredSearchTerm[] = [];
+  let backend: TermStorage | null = storage ?? null;
+  let loading: Promise<StoredSearchTerm[]> | null = null;
+  const listeners = new Set<TermListener>();
+
+  function notify(change: TermChangeType) {
+    const snapshot = [...terms];
+    listeners.forEach(listener => listener(snapshot, change));
+  }
+
+  async function ready(): Promise<TermStorage> {
+    await load();
+    return backend as TermStorage;
+  }
+
+  function load(): Promise<StoredSearchTerm[]> {
+    if (!loading) {
+      loading = (async () => {
+        backend = backend ?? await openDefaultStorage();
+        terms = await upgradeStoredTerms(backend, await backend.getAll());
+        terms.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+        const migrated = await migrateLegacyTerms(backend);
+        terms = [...terms, ...migrated];
+
+        notify('load');
+        return [...terms];
+      })().catch(error => {
+        loading = null; // Let the next call try again
+        throw error;
+      });
+    }
+    return loading;
+  }
+
+  return {
+    load,
+
+    list: () => [...terms],
+
+    get: (id) => terms.find(term => term.id === id) ?? null,
+
+    async add(pattern) {
+      const store = await ready();
+      const term = toStoredTerm(pattern, new Set(terms.map(existing => existing.id)), false);
+      await store.put(term);
+      terms = [...terms, term];
+      notify('add');
+      return term;
+    },
+
+    async update(id, changes) {
+      const store = await ready();
+      const existing = terms.find(term => term.id === id);
+      if (!existing) {
+        console.warn(`No search term with id "${id}" to update`);
+        return null;
+      }
+
+      const updated: StoredSearchTerm = {
+        ...existing,
+        ...changes,
+        id: existing.id,
+        createdAt: existing.createdAt,
+        updatedAt: new Date().toISOString()
+      };
+      await store.put(updated);
+      terms = terms.map(term => (term.id === id ? updated : term));
+      notify('update');
+      return updated;
+    },
+
+    async remove(id) {
+      const store = await ready();
+      if (!terms.some(term => term.id === id)) return false;
+
+      await store.delete(id);
+      terms = terms.filter(term => term.id !== id);
+      notify('delete');
+      return true;
+    },
+
+    async replaceAll(patterns) {
+      const store = await ready();
+      const usedIds = new Set<string>();
+      const replacement = patterns.map(pattern => toStoredTerm(pattern, usedIds));
+      await store.clear();
+      for (const term of replacement) {
+        await store.put(term);
+      }
+      terms = replacement;
+      notify('replace');
+      return [...terms];
+    },
+
+    async clear() {
+      const store = await ready();
+      await store.clear();
+      terms = [];
+      notify('replace');
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      listener([...terms], 'load');
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    storageKind: () => backend?.kind ?? null
+  };
+}
+
+/**
+ * The repository shared by the app (and by saveSearchTerm/updateSearchTerm/deleteSearchTerm)
+ */
+export const termRepository: TermRepository = createTermRepository();
+
+// ============================================================================
+// STORAGE BACKENDS
+// ============================================================================
+
+/**
+ * IndexedDB backend (one record per term, keyed by id)
+ * @returns The backend, or null when IndexedDB isn't available or won't open
+ */
+export async function createIndexedDBStorage(): Promise<TermStorage | null> {
+  const db = await openAppDatabase(); // Shared with the search history (app-database.ts)
+  if (!db) return null;
+
+  const run = <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) =>
+    runStoreRequest(TERMS_STORE, mode, action);
+
+  return {
+    kind: 'indexeddb',
+    getAll: () => run<StoredSearchTerm[]>('readonly', store => store.getAll()),
+    put: async (term) => { await run('readwrite', store => store.put(term)); },
+    delete: async (id) => { await run('readwrite', store => store.delete(id)); },
+    clear: async () => { await run('readwrite', store => store.clear()); }
+  };
+}
+
+/**
+ * localStorage backend (the whole list as one JSON array)
+ * @returns The backend, or null when localStorage isn't available
+ */
+export function createLocalStorageStorage(key: string = LOCAL_STORAGE_KEY): TermStorage | null {
+  if (typeof localStorage === 'undefined') return null;
+
+  const read = (): StoredSearchTerm[] => {
+    try {
+      const parsed = JSON.parse(localStorage.getItem(key) || '[]');
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.warn(`Could not read "${key}" from localStorage:`, error);
+      return [];
+    }
+  };
+  const write = (terms: StoredSearchTerm[]) => localStorage.setItem(key, JSON.stringify(terms));
+
+  return {
+    kind: 'localstorage',
+    getAll: async () => read(),
+    put: async (term) => {
+      const terms = read();
+      const index = terms.findIndex(existing => existing.id === term.id);
+      if (index >= 0) {
+        terms[index] = term;
+      } else {
+        terms.push(term);
+      }
+      write(terms);
+    },
+    delete: async (id) => write(read().filter(term => term.id !== id)),
+    clear: async () => localStorage.removeItem(key)
+  };
+}
+
+/**
+ * Memory-only backend (nothing survives a reload)
+ */
+export function createMemoryStorage(initial: StoredSearchTerm[] = []): TermStorage {
+  const records = new Map(initial.map(term => [term.id, term]));
+
+  return {
+    kind: 'memory',
+    getAll: async () => [...records.values()],
+    put: async (term) => { records.set(term.id, term); },
+    delete: async (id) => { records.delete(id); },
+    clear: async () => records.clear()
+  };
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+async function openDefaultStorage(): Promise<TermStorage> {
+  return (await createIndexedDBStorage()) ?? createLocalStorageStorage() ?? createMemoryStorage();
+}
+
+/**
+ * Give a pattern an id and timestamps, upgraded to the current term schema
+ *
+ * @param pattern - A plain pattern, or a stored term (e.g. from an export)
+ * @param usedIds - Ids already taken; the new id is added to it
+ * @param keepId - Keep the pattern's own id when it's free (restoring a backup)
+ */
+function toStoredTerm(pattern: SearchPattern | StoredSearchTerm, usedIds: Set<string>, keepId: boolean = true): StoredSearchTerm {
+  const now = new Date().toISOString();
+  const rest = migrateSearchPattern(pattern).data;
+  const stored = pattern as Partial<StoredSearchTerm>;
+
+  const id = keepId && stored.id && !usedIds.has(stored.id) ? stored.id : generateTermId();
+  usedIds.add(id);
+
+  return {
+    ...rest,
+    id,
+    createdAt: stored.createdAt || now,
+    updatedAt: now
+  };
+}
+
+/**
+ * Stable, unique id for a new term
+ */
+function generateTermId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return `term-${crypto.randomUUID()}`;
+  }
+  return `term-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Upgrade stored terms written in an older schema, and write the upgrades back
+ */
+async function upgradeStoredTerms(storage: TermStorage, stored: StoredSearchTerm[]): Promise<StoredSearchTerm[]> {
+  const upgraded: StoredSearchTerm[] = [];
+
+  for (const term of stored) {
+    const migration = migrateSearchPattern(term);
+    if (migration.fromVersion < TERM_SCHEMA_VERSION) {
+      const current = migration.data as StoredSearchTerm; // Keeps id and timestamps
+      await storage.put(current);
+      upgraded.push(current);
+    } else {
+      upgraded.push(term);
+    }
+  }
+
+  return upgraded;
+}
+
+/**
+ * Move terms from the old "customSearchTerms" key into the repository
+ * The old key is only removed after every term was written, and kept when
+ * nothing was (unreadable, not a list, or an empty list).
+ */
+async function migrateLegacyTerms(storage: TermStorage): Promise<StoredSearchTerm[]> {
+  if (typeof localStorage === 'undefined') return [];
+
+  const raw = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (raw === null) return [];
+
+  let legacy: unknown;
+  try {
+    legacy = JSON.parse(raw);
+  } catch (error) {
+    console.warn(`Could not read legacy "${LEGACY_STORAGE_KEY}" terms; leaving them in place:`, error);
+    return [];
+  }
+
+  if (!Array.isArray(legacy)) {
+    console.warn(`Legacy "${LEGACY_STORAGE_KEY}" is not a list of terms; leaving it in place`);
+    return [];
+  }
+  if (legacy.length === 0) return [];
+
+  const usedIds = new Set<string>();
+  const migrated = legacy.map(term => toStoredTerm(term as SearchPattern, usedIds, false));
+  for (const term of migrated) {
+    await storage.put(term);
+  }
+
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  console.log('Migrated', migrated.length, 'custom search terms into the term repository');
+  return migrated;
+}
@@ -0,0 +1,472 @@
+/**
+ * Term Schema - Versioned format for search patterns and search-terms.json
+ *
+ * RESPONSIBILITIES:
+ *  - Document the current schema (TERM_SCHEMA_VERSION)
+ *  - Validate patterns and whole files, with one error per bad field
+ *  - Migrate older data (exports, custom terms, old JSON files) to the current schema
+ *
+ * SCHEMA (version 2):
+ *   File:       { schemaVersion: 2, patterns: SearchPattern[] }
+ *   Pattern:    name         string   Quoted part of the search ("IMG", "DSC")
+ *               specifiers   string[] Templates filled in after the name ("XXXX", "{YYYY}{MM}{DD}")
+ *               genre        string   Free text; mapped to the primary tag (term-tags.ts)
+ *               tags?        string[] More tags, "/"-separated paths ("Device/Phone", "Era/2000s")
+ *               age          'new' | 'old' | ''
+ *               constraints  Constraint[]
+ *               platforms?   string[] Search platform ids (default: all)
+ *               weight?      number   Relative chance of being picked (default 1, >= 0)
+ *               specifierWeights?  { [specifier]: number }  Relative chance per specifier (default 1, >= 0)
+ *               excludeTerms?  string[]  Words the results must not contain ("minecraft")
+ *               operators?     string[]  Extra unquoted words or operators ("vlog", "intitle:clip")
+ *   Constraint: type         'year' | 'date-before' | 'date-after' | 'range' | 'time-range'
+ *                            | 'letter-range' | 'hex-range' | 'filter' | 'category'
+ *               value        string | number
+ *               field?       number | string   Which X field a range applies to
+ *   A pattern needs a name or at least one non-empty specifier.
+ *   Term pack files add a "pack" metadata object (see term-packs.ts).
+ *
+ * VERSION HISTORY:
+ *   1  Unversioned. Either a bare array of patterns (custom term exports) or
+ *      { patterns }. Custom terms stored their date limit as a
+ *      `constraint: [type, date]` tuple ('before' | 'after' | 'exact') and
+ *      carried an `isCustom` flag.
+ *   2  `schemaVersion` field; date limits are `constraints` entries; no `isCustom`.
+ *      Later additions that older readers ignore: optional `tags`, `weight`,
+ *      `specifierWeights`, `excludeTerms` and `operators`.
+ */
+
+import type { Constraint, SearchPattern } from './method-logic.js';
+import { parseFieldRange, parseSpecifierTemplate, validateSpecifierTemplate, type FieldKind } from './specifier-template.js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface SearchTermsFile {
+  schemaVersion: number;
+  patterns: SearchPattern[];
+}
+
+/**
+ * One problem with one field
+ * path is written like a property access: "patterns[3].constraints[0].value"
+ */
+export interface SchemaError {
+  path: string;
+  message: string;
+}
+
+export interface MigrationResult<T> {
+  data: T;
+  fromVersion: number;       // Version the input was written in
+  changes: string[];         // What the migration changed, for the user
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const TERM_SCHEMA_VERSION = 2;
+
+export const CONSTRAINT_TYPES: Constraint['type'][] = [
+  'year', 'date-before', 'date-after', 'range', 'time-range', 'letter-range', 'hex-range', 'filter', 'category'
+];
+
+const AGES = ['', 'new', 'old'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// PUBLIC API: VALIDATION
+// ============================================================================
+
+/**
+ * Validate one pattern against the current schema
+ * @param value - Anything (e.g. one entry of an imported file)
+ * @param path - Prefix for error paths (e.g. "patterns[3]")
+ * @returns Every problem found; empty when the pattern is valid
+ */
+export function validateSearchPattern(value: unknown, path: string = ''): SchemaError[] {
+  const at = (field: string) => (path ? `${path}.${field}` : field);
+
+  if (!isObject(value)) {
+    return [{ path: path || '(pattern)', message: 'Expected a pattern object' }];
+  }
+
+  const errors: SchemaError[] = [];
+
+  if (typeof value.name !== 'string') {
+    errors.push({ path: at('name'), message: 'Expected a string' });
+  }
+
+  if (!Array.isArray(value.specifiers)) {
+    errors.push({ path: at('specifiers'), message: 'Expected an array of specifier templates' });
+  } else {
+    value.specifiers.forEach((specifier, i) => {
+      if (typeof specifier !== 'string') {
+        errors.push({ path: at(`specifiers[${i}]`), message: 'Expected a string' });
+        return;
+      }
+      for (const error of validateSpecifierTemplate(specifier)) {
+        errors.push({ path: at(`specifiers[${i}]`), message: error.message });
+      }
+    });
+  }
+
+  const hasName = typeof value.name === 'string' && value.name.trim().length > 0;
+  const hasSpecifier = Array.isArray(value.specifiers) &&
+    value.specifiers.some(specifier => typeof specifier === 'string' && specifier.trim().length > 0);
+  if (!hasName && !hasSpecifier) {
+    errors.push({ path: at('name'), message: 'A pattern needs a name or at least one specifier' });
+  }
+
+  if (typeof value.genre !== 'string') {
+    errors.push({ path: at('genre'), message: 'Expected a string' });
+  }
+
+  if (value.tags !== undefined) {
+    if (!Array.isArray(value.tags)) {
+      errors.push({ path: at('tags'), message: 'Expected an array of tags' });
+    } else {
+      value.tags.forEach((tag, i) => {
+        if (typeof tag !== 'string' || tag.split('/').some(segment => segment.trim() === '')) {
+          errors.push({ path: at(`tags[${i}]`), message: `Expected a tag like "Device/Phone" (got ${JSON.stringify(tag)})` });
+        }
+      });
+    }
+  }
+
+  if (value.weight !== undefined && !isWeight(value.weight)) {
+    errors.push({ path: at('weight'), message: `Expected a number of 0 or more (got ${JSON.stringify(value.weight)})` });
+  }
+
+  if (value.specifierWeights !== undefined) {
+    if (!isObject(value.specifierWeights)) {
+      errors.push({ path: at('specifierWeights'), message: 'Expected an object of specifier → weight' });
+    } else {
+      for (const [specifier, weight] of Object.entries(value.specifierWeights)) {
+        if (!isWeight(weight)) {
+          errors.push({ path: at(`specifierWeights[${JSON.stringify(specifier)}]`), message: `Expected a number of 0 or more (got ${JSON.stringify(weight)})` });
+        }
+      }
+    }
+  }
+
+  for (const key of ['excludeTerms', 'operators'] as const) {
+    const terms = value[key];
+    if (terms === undefined) continue;
+    if (!Array.isArray(terms)) {
+      errors.push({ path: at(key), message: 'Expected an array of words' });
+    } else {
+      terms.forEach((term, i) => {
+        if (typeof term !== 'string' || term.trim() === '') {
+          errors.push({ path: at(`${key}[${i}]`), message: `Expected a non-empty string (got ${JSON.stringify(term)})` });
+        }
+      });
+    }
+  }
+
+  if (!AGES.includes(value.age as string)) {
+    errors.push({ path: at('age'), message: `Expected "new", "old" or "" (got ${JSON.stringify(value.age)})` });
+  }
+
+  if (!Array.isArray(value.constraints)) {
+    errors.push({ path: at('constraints'), message: 'Expected an array of constraints' });
+  } else {
+    value.constraints.forEach((constraint, i) => {
+      errors.push(...validateConstraint(constraint, at(`constraints[${i}]`)));
+      const problem = isObject(constraint) ? missingFieldProblem(constraint.field, value.specifiers) : null;
+      if (problem) errors.push({ path: at(`constraints[${i}].field`), message: problem });
+    });
+  }
+
+  if (value.platforms !== undefined) {
+    if (!Array.isArray(value.platforms) || value.platforms.some(platform => typeof platform !== 'string')) {
+      errors.push({ path: at('platforms'), message: 'Expected an array of platform ids' });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a whole search-terms file against the current schema
+ * @returns Every problem found; empty when the file is valid
+ */
+export function validateSearchTermsFile(value: unknown): SchemaError[] {
+  if (!isObject(value)) {
+    return [{ path: '(file)', message: 'Expected an object with "schemaVersion" and "patterns"' }];
+  }
+
+  const errors: SchemaError[] = [];
+
+  if (value.schemaVersion !== TERM_SCHEMA_VERSION) {
+    errors.push({
+      path: 'schemaVersion',
+      message: `Expected ${TERM_SCHEMA_VERSION} (got ${JSON.stringify(value.schemaVersion)})`
+    });
+  }
+
+  if (!Array.isArray(value.patterns)) {
+    errors.push({ path: 'patterns', message: 'Expected an array of patterns' });
+  } else {
+    value.patterns.forEach((pattern, i) => {
+      errors.push(...validateSearchPattern(pattern, `patterns[${i}]`));
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Write errors as readable lines ("patterns[3].age: Expected ...")
+ */
+export function formatSchemaErrors(errors: SchemaError[]): string[] {
+  return errors.map(error => `${error.path}: ${error.message}`);
+}
+
+// ============================================================================
+// PUBLIC API: MIGRATION
+// ============================================================================
+
+/**
+ * Upgrade one pattern (any version) to the current schema
+ * Unknown extra fields (e.g. a repository id) are kept; the result still needs validating.
+ */
+export function migrateSearchPattern(value: unknown): MigrationResult<SearchPattern> {
+  const changes: string[] = [];
+  if (!isObject(value)) {
+    // Nothing to upgrade; the validator reports it
+    return { data: value as SearchPattern, fromVersion: TERM_SCHEMA_VERSION, changes };
+  }
+
+  const { constraint: legacyConstraint, isCustom, ...rest } = value;
+  let fromVersion = TERM_SCHEMA_VERSION;
+
+  const constraints: Constraint[] = Array.isArray(rest.constraints) ? [...rest.constraints as Constraint[]] : [];
+  if (rest.constraints === undefined) {
+    fromVersion = 1;
+  }
+
+  if (legacyConstraint !== undefined) {
+    fromVersion = 1;
+    const converted = convertLegacyConstraint(legacyConstraint);
+    if (converted === null) {
+      changes.push(`Dropped unreadable date constraint ${JSON.stringify(legacyConstraint)}`);
+    } else if (converted.length > 0) {
+      constraints.push(...converted);
+      changes.push(`Converted date constraint ${JSON.stringify(legacyConstraint)} to constraints`);
+    }
+  }
+
+  if (isCustom !== undefined) {
+    fromVersion = 1;
+  }
+
+  // Version 1 custom terms could leave these out; wrong values are left for the validator
+  const pattern = {
+    ...rest,
+    name: rest.name ?? '',
+    specifiers: rest.specifiers ?? [''],
+    genre: rest.genre ?? 'Custom',
+    age: rest.age ?? '',
+    constraints: rest.constraints === undefined || Array.isArray(rest.constraints) ? constraints : rest.constraints
+  } as SearchPattern;
+
+  return { data: pattern, fromVersion, changes };
+}
+
+/**
+ * Upgrade a search-terms file or custom term export (any version) to the current schema
+ * Accepts a bare array of patterns (old exports), { patterns } and { schemaVersion, patterns }.
+ *
+ * @returns The upgraded file, or null with errors when it can't be read
+ */
+export function migrateSearchTermsFile(value: unknown): MigrationResult<SearchTermsFile> | { data: null; errors: SchemaError[] } {
+  let fromVersion: number;
+  let patterns: unknown;
+
+  if (Array.isArray(value)) {
+    fromVersion = 1;
+    patterns = value;
+  } else if (isObject(value) && Array.isArray(value.patterns)) {
+    fromVersion = typeof value.schemaVersion === 'number' ? value.schemaVersion : 1;
+    patterns = value.patterns;
+  } else {
+    return { data: null, errors: [{ path: '(file)', message: 'Expected an array of patterns or an object with "patterns"' }] };
+  }
+
+  if (fromVersion > TERM_SCHEMA_VERSION) {
+    return {
+      data: null,
+      errors: [{
+        path: 'schemaVersion',
+        message: `Written by a newer version (schema ${fromVersion}); this version reads up to ${TERM_SCHEMA_VERSION}`
+      }]
+    };
+  }
+
+  const changes: string[] = [];
+  const migrated = (patterns as unknown[]).map((pattern, i) => {
+    const result = migrateSearchPattern(pattern);
+    changes.push(...result.changes.map(change => `patterns[${i}]: ${change}`));
+    return result.data;
+  });
+
+  return { data: { schemaVersion: TERM_SCHEMA_VERSION, patterns: migrated }, fromVersion, changes };
+}
+
+// ============================================================================
+// PUBLIC API: DATE LIMITS (custom term builder)
+// ============================================================================
+
+export type DateLimitType = 'before' | 'after' | 'exact';
+
+/**
+ * Constraints for a date limit from the custom term builder
+ * 'exact' becomes that whole day (date-after the day, date-before the next day).
+ *
+ * @param date - YYYY-MM-DD
+ */
+export function dateLimitConstraints(type: DateLimitType, date: string): Constraint[] {
+  switch (type) {
+    case 'before':
+      return [{ type: 'date-before', value: date }];
+    case 'after':
+      return [{ type: 'date-after', value: date }];
+    case 'exact': {
+      const nextDay = new Date(new Date(date).getTime() + DAY_MS).toISOString().slice(0, 10);
+      return [{ type: 'date-after', value: date }, { type: 'date-before', value: nextDay }];
+    }
+  }
+}
+
+/**
+ * Read a pattern's date constraints back into a builder date limit
+ * @returns The limit, or null when the pattern has none (or ones the builder can't show)
+ */
+export function dateLimitFromConstraints(constraints: Constraint[]): { type: DateLimitType; date: string } | null {
+  const before = constraints.filter(c => c.type === 'date-before');
+  const after = constraints.filter(c => c.type === 'date-after');
+  if (before.length > 1 || after.length > 1) return null;
+
+  if (before.length === 1 && after.length === 1) {
+    const date = String(after[0].value);
+    const exact = dateLimitConstraints('exact', date)[1].value;
+    return String(before[0].value) === exact ? { type: 'exact', date } : null;
+  }
+  if (before.length === 1) return { type: 'before', date: String(before[0].value) };
+  if (after.length === 1) return { type: 'after', date: String(after[0].value) };
+  return null;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isWeight(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Check one constraint's type, value and field
+ */
+function validateConstraint(value: unknown, path: string): SchemaError[] {
+  if (!isObject(value)) {
+    return [{ path, message: 'Expected a constraint object' }];
+  }
+
+  const errors: SchemaError[] = [];
+  const type = value.type as Constraint['type'];
+
+  if (!CONSTRAINT_TYPES.includes(type)) {
+    errors.push({ path: `${path}.type`, message: `Unknown constraint type ${JSON.stringify(value.type)}` });
+  }
+
+  if (typeof value.value !== 'string' && typeof value.value !== 'number') {
+    errors.push({ path: `${path}.value`, message: 'Expected a string or number' });
+  } else {
+    const problem = constraintValueProblem(type, String(value.value));
+    if (problem) errors.push({ path: `${path}.value`, message: problem });
+  }
+
+  if (value.field !== undefined) {
+    const validIndex = typeof value.field === 'number' && Number.isInteger(value.field) && value.field >= 0;
+    const validName = typeof value.field === 'string' && value.field.trim().length > 0;
+    if (!validIndex && !validName) {
+      errors.push({ path: `${path}.field`, message: 'Expected a field index (0, 1, ...) or field name' });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Why a constraint's field isn't in any of the pattern's specifiers, or null when it is
+ * (or when the constraint has no field, or the field or specifiers are invalid anyway)
+ */
+function missingFieldProblem(field: unknown, specifiers: unknown): string | null {
+  if ((typeof field !== 'number' && typeof field !== 'string') || !Array.isArray(specifiers)) return null;
+
+  const found = specifiers.some(specifier => typeof specifier === 'string' &&
+    parseSpecifierTemplate(specifier).fields.some(token => token.index === field || (token.name !== undefined && token.name === field))
+  );
+  return found ? null : `No specifier has a field ${typeof field === 'number' ? field : JSON.stringify(field)} (fields count from 0)`;
+}
+
+/**
+ * What's wrong with a constraint value for its type, or null when it's fine
+ * Ranges are checked as they are, since rolls read them without trimming (see
+ * resolveSpecifierFields()); years and dates are read trimmed.
+ */
+function constraintValueProblem(type: Constraint['type'], rawValue: string): string | null {
+  const value = rawValue.trim();
+  if (value === '') return 'Must not be empty';
+
+  switch (type) {
+    case 'year':
+      return /^\d{4}$/.test(value) ? null : `Expected a 4-digit year (got "${value}")`;
+    case 'date-before':
+    case 'date-after':
+      return /^\d{4}$/.test(value) || (/^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime()))
+        ? null
+        : `Expected a year or a YYYY-MM-DD date (got "${value}")`;
+    case 'range':
+      return rangeProblem(rawValue, 'number', 'numbers');
+    case 'hex-range':
+      return rangeProblem(rawValue, 'hex', 'hex numbers');
+    case 'letter-range':
+      return rangeProblem(rawValue, 'letter', 'single letters');
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check a "min-max" range value (read like the rolls read it, see parseFieldRange())
+ */
+function rangeProblem(value: string, kind: FieldKind, description: string): string | null {
+  const range = parseFieldRange(value, kind);
+  if (!range) return `Expected "min-max" with ${description} (got "${value}")`;
+  return range.min <= range.max ? null : `Minimum is larger than maximum (got "${value}")`;
+}
+
+/**
+ * Convert a version 1 `constraint: [type, date]` tuple into constraints
+ * @returns The constraints ([] for an empty tuple), or null when unreadable
+ */
+function convertLegacyConstraint(value: unknown): Constraint[] | null {
+  if (!Array.isArray(value)) return null;
+
+  const [type, date] = value;
+  if (!type) return [];
+  if (typeof date !== 'string' || isNaN(new Date(date).getTime())) return null;
+  if (type !== 'before' && type !== 'after' && type !== 'exact') return null;
+
+  return dateLimitConstraints(type, date);
+}
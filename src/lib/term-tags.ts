@@ -0,0 +1,225 @@
+/**
+ * Term Tags - Hierarchical tags for search patterns and the tag filter
+ *
+ * RESPONSIBILITIES:
+ * A pattern can belong to several buckets at once: a GoPro clip used as a
+ * dashcam is both "Device/Camera/GoPro" and "Device/Camera/Dashcam". Tags are
+ * paths of display names separated by "/", so they form a tree:
+ *
+ *   Device/Camera/GoPro      Software/Screen Recorder    Era/2000s
+ *   Platform/WhatsApp        Language/Korean             Content Warning/NSFW
+ *
+ * A tag also counts as every tag above it ("Device/Phone/iPhone" is in
+ * "Device/Phone" and "Device").
+ *
+ * GENRE COMPATIBILITY:
+ * Every pattern still has a `genre`. It maps in as the pattern's PRIMARY tag
+ * (GENRE_TAGS places the known genres in the tree; any other genre becomes a
+ * top-level tag of the same name), followed by the pattern's own `tags`.
+ *
+ * TAG FILTER:
+ * include  Tags a pattern must have: any of them (mode 'any', OR) or all of them
+ *          (mode 'all', AND). Nothing included = every pattern is included.
+ * exclude  Tags a pattern must not have (any one excludes it).
+ */
+
+import type { SearchPattern } from './method-logic.js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type TagMatchMode = 'any' | 'all';
+
+export interface TagFilter {
+  include: string[];
+  exclude: string[];
+  mode: TagMatchMode;
+}
+
+/**
+ * One node of the tag tree
+ */
+export interface TagNode {
+  tag: string;          // Full path ("Device/Phone")
+  label: string;        // Last segment ("Phone")
+  depth: number;        // 0 for top-level tags
+  count: number;        // Patterns with this tag or one below it
+  children: TagNode[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const TAG_SEPARATOR = '/';
+
+/**
+ * Where the built-in genres sit in the tag tree
+ */
+export const GENRE_TAGS: Record<string, string> = {
+  'Camera': 'Device/Camera',
+  'GoPro': 'Device/Camera/GoPro',
+  'Dashcam': 'Device/Camera/Dashcam',
+  'Body Cam': 'Device/Camera/Body Cam',
+  'Drone': 'Device/Drone',
+  'Webcam': 'Device/Webcam',
+  'Phone': 'Device/Phone',
+  'iPhone': 'Device/Phone/iPhone',
+  'Smartphone': 'Device/Phone/Smartphone',
+  'VR Headset': 'Device/VR Headset',
+  'Nintendo DS': 'Device/Console/Nintendo DS',
+  'Game Capture': 'Software/Game Capture',
+  'Screen Recorder': 'Software/Screen Recorder',
+  'Video Editor': 'Software/Video Editor',
+  'App': 'Software/App',
+  'Zoom': 'Software/Zoom',
+  'VHS': 'Format/VHS',
+  'Format': 'Format/File Extension',
+  'NSFW': 'Content Warning/NSFW'
+};
+
+export const NSFW_TAG = GENRE_TAGS['NSFW'];
+
+// Like the old genre filter: everything except NSFW
+export const DEFAULT_TAG_FILTER: TagFilter = { include: [], exclude: [NSFW_TAG], mode: 'any' };
+
+// ============================================================================
+// PUBLIC API: TAGS
+// ============================================================================
+
+/**
+ * The primary tag for a genre ("iPhone" → "Device/Phone/iPhone", "Custom" → "Custom")
+ */
+export function genreTag(genre: string): string {
+  return GENRE_TAGS[genre] ?? normalizeTag(genre);
+}
+
+/**
+ * Every tag of a pattern: its genre's primary tag first, then its own tags (no duplicates)
+ */
+export function patternTags(pattern: SearchPattern): string[] {
+  const tags = [genreTag(pattern.genre), ...(pattern.tags ?? []).map(normalizeTag)];
+  return [...new Set(tags)].filter(tag => tag !== '');
+}
+
+/**
+ * Tidy a tag path: trimmed segments, no empty ones (" Device // Phone " → "Device/Phone")
+ */
+export function normalizeTag(tag: string): string {
+  return tag
+    .split(TAG_SEPARATOR)
+    .map(segment => segment.trim())
+    .filter(segment => segment !== '')
+    .join(TAG_SEPARATOR);
+}
+
+/**
+ * Whether a tag is the given tag or sits below it ("Device/Phone/iPhone" is in "Device/Phone")
+ */
+export function tagIsWithin(tag: string, ancestor: string): boolean {
+  return tag === ancestor || tag.startsWith(ancestor + TAG_SEPARATOR);
+}
+
+/**
+ * Read a comma-separated tag list ("Device/Phone, Era/2000s")
+ */
+export function parseTagList(text: string): string[] {
+  return [...new Set(text.split(',').map(normalizeTag).filter(tag => tag !== ''))];
+}
+
+export function formatTagList(tags: string[]): string {
+  return tags.join(', ');
+}
+
+// ============================================================================
+// PUBLIC API: TAG TREE
+// ============================================================================
+
+/**
+ * Build the tag tree of a list of patterns, sorted by label at every level
+ * Content warnings are listed first, like NSFW was in the genre list.
+ */
+export function buildTagTree(patterns: SearchPattern[]): TagNode[] {
+  const roots: TagNode[] = [];
+  const nodes = new Map<string, TagNode>();
+
+  for (const pattern of patterns) {
+    // Count each pattern once per node, even when several of its tags share an ancestor
+    const counted = new Set<string>();
+
+    for (const tag of patternTags(pattern)) {
+      const segments = tag.split(TAG_SEPARATOR);
+      segments.forEach((label, depth) => {
+        const path = segments.slice(0, depth + 1).join(TAG_SEPARATOR);
+        let node = nodes.get(path);
+        if (!node) {
+          node = { tag: path, label, depth, count: 0, children: [] };
+          nodes.set(path, node);
+          const parent = depth === 0 ? null : nodes.get(segments.slice(0, depth).join(TAG_SEPARATOR));
+          (parent ? parent.children : roots).push(node);
+        }
+        if (!counted.has(path)) {
+          node.count++;
+          counted.add(path);
+        }
+      });
+    }
+  }
+
+  const contentWarning = NSFW_TAG.split(TAG_SEPARATOR)[0];
+  const sort = (list: TagNode[]) => {
+    list.sort((a, b) => a.label.localeCompare(b.label));
+    list.forEach(node => sort(node.children));
+  };
+  sort(roots);
+  roots.sort((a, b) => Number(b.tag === contentWarning) - Number(a.tag === contentWarning));
+
+  return roots;
+}
+
+/**
+ * The tree as a flat list in display order (parents before their children)
+ */
+export function flattenTagTree(tree: TagNode[]): TagNode[] {
+  return tree.flatMap(node => [node, ...flattenTagTree(node.children)]);
+}
+
+// ============================================================================
+// PUBLIC API: TAG FILTER
+// ============================================================================
+
+/**
+ * Whether a pattern passes the tag filter
+ */
+export function matchesTagFilter(pattern: SearchPattern, filter: TagFilter): boolean {
+  const tags = patternTags(pattern);
+  const has = (filterTag: string) => tags.some(tag => tagIsWithin(tag, filterTag));
+
+  if (filter.exclude.some(has)) return false;
+  if (filter.include.length === 0) return true;
+
+  return filter.mode === 'all' ? filter.include.every(has) : filter.include.some(has);
+}
+
+/**
+ * Cycle a tag through the filter: not used → included → excluded → not used
+ */
+export function cycleTagInFilter(filter: TagFilter, tag: string): TagFilter {
+  if (filter.include.includes(tag)) {
+    return { ...filter, include: filter.include.filter(other => other !== tag), exclude: [...filter.exclude, tag] };
+  }
+  if (filter.exclude.includes(tag)) {
+    return { ...filter, exclude: filter.exclude.filter(other => other !== tag) };
+  }
+  return { ...filter, include: [...filter.include, tag] };
+}
+
+/**
+ * How a tag is used in the filter
+ */
+export function tagFilterState(filter: TagFilter, tag: string): 'include' | 'exclude' | null {
+  if (filter.include.includes(tag)) return 'include';
+  if (filter.exclude.includes(tag)) return 'exclude';
+  return null;
+}
@@ -0,0 +1,348 @@
+/**
+ * YouTube Filters - Encoder/Decoder for YouTube's `sp` Search Parameter
+ *
+ * RESPONSIBILITIES:
+ * YouTube stores the search filter menu (sort order, upload date, type,
+ * duration, features) in the `sp` URL parameter as a base64-encoded protobuf
+ * message. This module turns a typed YouTubeSearchFilters object into that
+ * string and back, so patterns and user settings can ask for any combination
+ * instead of the old hard-coded `sp=CAISAhAB` (sort by upload date, videos only).
+ *
+ * MESSAGE LAYOUT:
+ *  field 1 (varint)   sort order
+ *  field 2 (message)  filters
+ *    field 1          upload date
+ *    field 2          result type
+ *    field 3          duration
+ *    field 4+         features (boolean flags, see FEATURE_FIELDS)
+ */
+
+import type { SearchPattern } from './method-logic.js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type YouTubeSortOrder = 'relevance' | 'rating' | 'upload-date' | 'view-count';
+export type YouTubeUploadDate = 'any' | 'hour' | 'today' | 'week' | 'month' | 'year';
+export type YouTubeResultType = 'any' | 'video' | 'channel' | 'playlist' | 'movie';
+export type YouTubeDuration = 'any' | 'short' | 'medium' | 'long';
+export type YouTubeFeature =
+  | 'hd'
+  | 'subtitles'
+  | 'creative-commons'
+  | '3d'
+  | 'live'
+  | 'purchased'
+  | '4k'
+  | '360'
+  | 'location'
+  | 'hdr'
+  | 'vr180';
+
+export interface YouTubeSearchFilters {
+  sort?: YouTubeSortOrder;
+  uploadDate?: YouTubeUploadDate;
+  type?: YouTubeResultType;
+  duration?: YouTubeDuration;
+  features?: YouTubeFeature[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * What every search used before filters were configurable:
+ * sorted by upload date, videos only (sp=CAISAhAB)
+ */
+export const DEFAULT_YOUTUBE_FILTERS: YouTubeSearchFilters = {
+  sort: 'upload-date',
+  type: 'video'
+};
+
+const SORT_VALUES: Record<YouTubeSortOrder, number> = {
+  'relevance': 0,
+  'rating': 1,
+  'upload-date': 2,
+  'view-count': 3
+};
+
+const UPLOAD_DATE_VALUES: Record<YouTubeUploadDate, number> = {
+  'any': 0,
+  'hour': 1,
+  'today': 2,
+  'week': 3,
+  'month': 4,
+  'year': 5
+};
+
+const TYPE_VALUES: Record<YouTubeResultType, number> = {
+  'any': 0,
+  'video': 1,
+  'channel': 2,
+  'playlist': 3,
+  'movie': 4
+};
+
+// YouTube numbers the duration buckets out of order: 1 = under 4 minutes,
+// 2 = over 20 minutes, 3 = 4-20 minutes
+const DURATION_VALUES: Record<YouTubeDuration, number> = {
+  'any': 0,
+  'short': 1,
+  'long': 2,
+  'medium': 3
+};
+
+const FEATURE_FIELDS: Record<YouTubeFeature, number> = {
+  'hd': 4,
+  'subtitles': 5,
+  'creative-commons': 6,
+  '3d': 7,
+  'live': 8,
+  'purchased': 9,
+  '4k': 14,
+  '360': 15,
+  'location': 23,
+  'hdr': 25,
+  'vr180': 26
+};
+
+// Every feature flag, in field-number order
+export const YOUTUBE_FEATURES = Object.keys(FEATURE_FIELDS) as YouTubeFeature[];
+
+// Human-readable labels, used by the UI and describeYouTubeFilters()
+export const YOUTUBE_FILTER_LABELS = {
+  sort: { 'relevance': 'Relevance', 'rating': 'Rating', 'upload-date': 'Upload date', 'view-count': 'View count' },
+  uploadDate: { 'any': 'Any time', 'hour': 'Last hour', 'today': 'Today', 'week': 'This week', 'month': 'This month', 'year': 'This year' },
+  type: { 'any': 'Any type', 'video': 'Video', 'channel': 'Channel', 'playlist': 'Playlist', 'movie': 'Movie' },
+  duration: { 'any': 'Any length', 'short': 'Under 4 minutes', 'medium': '4-20 minutes', 'long': 'Over 20 minutes' },
+  features: {
+    'hd': 'HD', 'subtitles': 'Subtitles/CC', 'creative-commons': 'Creative Commons', '3d': '3D', 'live': 'Live',
+    'purchased': 'Purchased', '4k': '4K', '360': '360°', 'location': 'Location', 'hdr': 'HDR', 'vr180': 'VR180'
+  }
+} as const;
+
+// ============================================================================
+// PUBLIC API: ENCODING & DECODING
+// ============================================================================
+
+/**
+ * Encode filters into the value of YouTube's `sp` parameter
+ *
+ * @param filters - The filters to encode
+ * @returns Base64 `sp` value, or '' when no filter is set (plain relevance search)
+ */
+export function encodeYouTubeFilters(filters: YouTubeSearchFilters): string {
+  const inner: number[] = [];
+  writeVarintField(inner, 1, UPLOAD_DATE_VALUES[filters.uploadDate ?? 'any']);
+  writeVarintField(inner, 2, TYPE_VALUES[filters.type ?? 'any']);
+  writeVarintField(inner, 3, DURATION_VALUES[filters.duration ?? 'any']);
+
+  const features = [...new Set(filters.features ?? [])]
+    .sort((a, b) => FEATURE_FIELDS[a] - FEATURE_FIELDS[b]);
+  for (const feature of features) {
+    writeVarintField(inner, FEATURE_FIELDS[feature], 1);
+  }
+
+  const message: number[] = [];
+  writeVarintField(message, 1, SORT_VALUES[filters.sort ?? 'relevance']);
+  if (inner.length > 0) {
+    writeTag(message, 2, 2);
+    writeVarint(message, inner.length);
+    message.push(...inner);
+  }
+
+  if (message.length === 0) return '';
+  return btoa(String.fromCharCode(...message));
+}
+
+/**
+ * Decode the value of a YouTube `sp` parameter back into filters
+ *
+ * @param sp - The `sp` value (URL-decoded)
+ * @returns The filters, or null when the value isn't a filter message we understand
+ */
+export function decodeYouTubeFilters(sp: string): YouTubeSearchFilters | null {
+  let bytes: number[];
+  try {
+    bytes = Array.from(atob(sp.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+
+  const message = readMessage(bytes);
+  if (!message) return null;
+
+  const filters: YouTubeSearchFilters = {};
+  for (const field of message) {
+    if (field.number === 1 && typeof field.value === 'number') {
+      filters.sort = keyForValue(SORT_VALUES, field.value);
+    } else if (field.number === 2 && Array.isArray(field.value)) {
+      const inner = readMessage(field.value);
+      if (!inner) return null;
+
+      for (const innerField of inner) {
+        if (typeof innerField.value !== 'number') continue;
+        if (innerField.number === 1) filters.uploadDate = keyForValue(UPLOAD_DATE_VALUES, innerField.value);
+        else if (innerField.number === 2) filters.type = keyForValue(TYPE_VALUES, innerField.value);
+        else if (innerField.number === 3) filters.duration = keyForValue(DURATION_VALUES, innerField.value);
+        else {
+          const feature = keyForValue(FEATURE_FIELDS, innerField.number);
+          if (feature && innerField.value === 1) {
+            filters.features = [...(filters.features ?? []), feature];
+          }
+        }
+      }
+    }
+  }
+
+  return filters;
+}
+
+/**
+ * Read the filters back out of a YouTube search URL (for the history view)
+ * @returns The filters, {} when the URL has no `sp`, or null when it can't be read
+ */
+export function decodeYouTubeFiltersFromURL(url: string): YouTubeSearchFilters | null {
+  try {
+    const sp = new URL(url).searchParams.get('sp');
+    return sp ? decodeYouTubeFilters(sp) : {};
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Describe filters in words, e.g. "Upload date · Playlist · HD"
+ * Unset and "any" values are left out.
+ */
+export function describeYouTubeFilters(filters: YouTubeSearchFilters): string {
+  const parts: string[] = [];
+  if (filters.sort && filters.sort !== 'relevance') parts.push(YOUTUBE_FILTER_LABELS.sort[filters.sort]);
+  if (filters.uploadDate && filters.uploadDate !== 'any') parts.push(YOUTUBE_FILTER_LABELS.uploadDate[filters.uploadDate]);
+  if (filters.type && filters.type !== 'any') parts.push(YOUTUBE_FILTER_LABELS.type[filters.type]);
+  if (filters.duration && filters.duration !== 'any') parts.push(YOUTUBE_FILTER_LABELS.duration[filters.duration]);
+  for (const feature of filters.features ?? []) parts.push(YOUTUBE_FILTER_LABELS.features[feature]);
+  return parts.join(' · ');
+}
+
+// ============================================================================
+// PUBLIC API: COMBINING FILTERS
+// ============================================================================
+
+/**
+ * Read the `filter` constraints of a pattern into YouTube filters
+ * Values are the names used in this module: "playlist", "long", "hd", "week", ...
+ * ("short"/"medium"/"long" are durations, "today"/"week"/... are upload dates).
+ */
+export function patternYouTubeFilters(pattern: SearchPattern): YouTubeSearchFilters {
+  const filters: YouTubeSearchFilters = {};
+
+  for (const constraint of pattern.constraints) {
+    if (constraint.type !== 'filter') continue;
+    const value = String(constraint.value).trim().toLowerCase();
+
+    if (value in TYPE_VALUES) filters.type = value as YouTubeResultType;
+    else if (value in DURATION_VALUES) filters.duration = value as YouTubeDuration;
+    else if (value in UPLOAD_DATE_VALUES) filters.uploadDate = value as YouTubeUploadDate;
+    else if (value in SORT_VALUES) filters.sort = value as YouTubeSortOrder;
+    else if (value in FEATURE_FIELDS) filters.features = [...(filters.features ?? []), value as YouTubeFeature];
+    else console.warn(`Unknown filter constraint "${constraint.value}" on "${pattern.name}"`);
+  }
+
+  return filters;
+}
+
+/**
+ * Layer filters on top of each other; later layers win field by field
+ * Features are combined rather than replaced.
+ */
+export function mergeYouTubeFilters(...layers: YouTubeSearchFilters[]): YouTubeSearchFilters {
+  const merged: YouTubeSearchFilters = {};
+
+  for (const layer of layers) {
+    if (layer.sort !== undefined) merged.sort = layer.sort;
+    if (layer.uploadDate !== undefined) merged.uploadDate = layer.uploadDate;
+    if (layer.type !== undefined) merged.type = layer.type;
+    if (layer.duration !== undefined) merged.duration = layer.duration;
+    if (layer.features && layer.features.length > 0) {
+      merged.features = [...new Set([...(merged.features ?? []), ...layer.features])];
+    }
+  }
+
+  return merged;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS: PROTOBUF WIRE FORMAT
+// ============================================================================
+
+type WireField = { number: number; value: number | number[] };
+
+function writeVarint(out: number[], value: number): void {
+  while (value > 0x7f) {
+    out.push((value & 0x7f) | 0x80);
+    value >>>= 7;
+  }
+  out.push(value);
+}
+
+function writeTag(out: number[], fieldNumber: number, wireType: number): void {
+  writeVarint(out, (fieldNumber << 3) | wireType);
+}
+
+// Zero values are left out, like protobuf does for defaults
+function writeVarintField(out: number[], fieldNumber: number, value: number): void {
+  if (value === 0) return;
+  writeTag(out, fieldNumber, 0);
+  writeVarint(out, value);
+}
+
+/**
+ * Read a flat list of varint and length-delimited fields
+ * @returns The fields, or null on malformed input or other wire types
+ */
+function readMessage(bytes: number[]): WireField[] | null {
+  const fields: WireField[] = [];
+  let offset = 0;
+
+  const readVarint = (): number | null => {
+    let result = 0;
+    let shift = 0;
+    while (offset < bytes.length) {
+      const byte = bytes[offset++];
+      result |= (byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) return result >>> 0;
+      shift += 7;
+      if (shift > 28) return null;
+    }
+    return null;
+  };
+
+  while (offset < bytes.length) {
+    const tag = readVarint();
+    if (tag === null) return null;
+    const number = tag >>> 3;
+    const wireType = tag & 0x7;
+
+    if (wireType === 0) {
+      const value = readVarint();
+      if (value === null) return null;
+      fields.push({ number, value });
+    } else if (wireType === 2) {
+      const length = readVarint();
+      if (length === null || offset + length > bytes.length) return null;
+      fields.push({ number, value: bytes.slice(offset, offset + length) });
+      offset += length;
+    } else {
+      return null;
+    }
+  }
+
+  return fields;
+}
+
+function keyForValue<K extends string>(table: Record<K, number>, value: number): K | undefined {
+  return (Object.keys(table) as K[]).find(key => table[key] === value);
+}